@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BOARD_THEMES, BoardTheme, PIECE_SETS, PieceSet } from "@/lib/boardThemes";
+import { useBoardSettings } from "@/hooks/use-board-settings";
+import { Chessboard } from "./Chessboard";
+
+// A few pieces of each color, enough to judge the theme
+const PREVIEW_FEN = '8/8/8/3nk3/8/3QN3/8/8 w - - 0 1';
+
+export const BoardSettingsMenu = () => {
+  const [settings, updateSettings] = useBoardSettings();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          Board settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <Label>Board</Label>
+          <Select
+            value={settings.boardTheme}
+            onValueChange={(value) => updateSettings({ boardTheme: value as BoardTheme })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(BOARD_THEMES).map(([value, theme]) => (
+                <SelectItem key={value} value={value}>
+                  {theme.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Pieces</Label>
+          <Select
+            value={settings.pieceSet}
+            onValueChange={(value) => updateSettings({ pieceSet: value as PieceSet })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PIECE_SETS).map(([value, set]) => (
+                <SelectItem key={value} value={value}>
+                  {set.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="show-coordinates">Coordinates</Label>
+          <Switch
+            id="show-coordinates"
+            checked={settings.showCoordinates}
+            onCheckedChange={(checked) => updateSettings({ showCoordinates: checked })}
+          />
+        </div>
+        <Chessboard fen={PREVIEW_FEN} size={160} />
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -3,22 +3,81 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { GAME_RESULTS, GameFilters, GameResult, PlayerColor, TIME_CLASSES, TimeClass } from "@/lib/gameFilters";
+import { TacticMode } from "@/lib/tacticsGenerator";
+
+type GameSource = "chess.com" | "lichess" | "pgn";
 
 interface ChessFormProps {
-  onSubmit: (username: string, platform: "chess.com" | "lichess", gameCount: number) => void;
+  onSubmit: (
+    username: string,
+    platform: "chess.com" | "lichess",
+    gameCount: number,
+    filters: GameFilters,
+    mode: TacticMode
+  ) => void;
+  onImport: (pgnText: string, username: string, gameCount: number, mode: TacticMode) => void;
   isLoading: boolean;
 }
 
-export const ChessForm = ({ onSubmit, isLoading }: ChessFormProps) => {
+export const ChessForm = ({ onSubmit, onImport, isLoading }: ChessFormProps) => {
   const [username, setUsername] = useState("");
-  const [platform, setPlatform] = useState<"chess.com" | "lichess">("chess.com");
+  const [platform, setPlatform] = useState<GameSource>("chess.com");
   const [gameCount, setGameCount] = useState(5);
+  const [mode, setMode] = useState<TacticMode>("missed");
+  const [since, setSince] = useState("");
+  const [until, setUntil] = useState("");
+  const [timeClasses, setTimeClasses] = useState<TimeClass[]>([]);
+  const [results, setResults] = useState<GameResult[]>([]);
+  const [color, setColor] = useState<PlayerColor | "any">("any");
+  const [ratedOnly, setRatedOnly] = useState(false);
+  const [minOpponentRating, setMinOpponentRating] = useState("");
+  const [pgnText, setPgnText] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+
+  const isPgnImport = platform === "pgn";
+  const canSubmit = isPgnImport ? !!pgnText.trim() : !!username.trim();
+
+  const readPgnFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    const contents = await Promise.all(
+      Array.from(files)
+        .filter((file) => file.name.toLowerCase().endsWith(".pgn"))
+        .map((file) => file.text())
+    );
+
+    if (contents.length > 0) {
+      setPgnText((current) => [current.trim(), ...contents].filter(Boolean).join("\n\n"));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    readPgnFiles(e.dataTransfer.files);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (username.trim()) {
-      onSubmit(username.trim(), platform, gameCount);
+    if (isPgnImport) {
+      if (pgnText.trim()) {
+        onImport(pgnText, username.trim(), gameCount, mode);
+      }
+    } else if (username.trim()) {
+      onSubmit(username.trim(), platform, gameCount, {
+        since: since ? new Date(`${since}T00:00:00`) : undefined,
+        until: until ? new Date(`${until}T23:59:59`) : undefined,
+        timeClasses,
+        results,
+        color: color === "any" ? undefined : color,
+        ratedOnly,
+        minOpponentRating: minOpponentRating ? parseInt(minOpponentRating) : undefined,
+      }, mode);
     }
   };
 
@@ -33,19 +92,19 @@ export const ChessForm = ({ onSubmit, isLoading }: ChessFormProps) => {
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="space-y-2">
-            <Label htmlFor="username">Username</Label>
+            <Label htmlFor="username">{isPgnImport ? "Your name in the PGN (optional)" : "Username"}</Label>
             <Input
               id="username"
-              placeholder="Enter your username"
+              placeholder={isPgnImport ? "As written in the White/Black tags" : "Enter your username"}
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              required
+              required={!isPgnImport}
             />
           </div>
 
           <div className="space-y-3">
             <Label>Platform</Label>
-            <RadioGroup value={platform} onValueChange={(value: "chess.com" | "lichess") => setPlatform(value)}>
+            <RadioGroup value={platform} onValueChange={(value: GameSource) => setPlatform(value)}>
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="chess.com" id="chess-com" />
                 <Label htmlFor="chess-com" className="font-normal cursor-pointer">
@@ -58,6 +117,68 @@ export const ChessForm = ({ onSubmit, isLoading }: ChessFormProps) => {
                   Lichess.org
                 </Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="pgn" id="pgn" />
+                <Label htmlFor="pgn" className="font-normal cursor-pointer">
+                  PGN file or text
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {isPgnImport && (
+            <div className="space-y-2">
+              <Label htmlFor="pgn-text">PGN</Label>
+              <div
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`rounded-md ${isDragging ? "ring-2 ring-primary" : ""}`}
+              >
+                <Textarea
+                  id="pgn-text"
+                  placeholder="Paste one or more games, or drop .pgn files here"
+                  value={pgnText}
+                  onChange={(e) => setPgnText(e.target.value)}
+                  className="min-h-[160px] font-mono text-xs"
+                />
+              </div>
+              <Input
+                type="file"
+                accept=".pgn"
+                multiple
+                onChange={(e) => {
+                  readPgnFiles(e.target.files);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <Label>Puzzles from</Label>
+            <RadioGroup value={mode} onValueChange={(value: TacticMode) => setMode(value)}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="missed" id="mode-missed" />
+                <Label htmlFor="mode-missed" className="font-normal cursor-pointer">
+                  Winning moves I missed
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="found" id="mode-found" />
+                <Label htmlFor="mode-found" className="font-normal cursor-pointer">
+                  Winning moves I found
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="unpunished" id="mode-unpunished" />
+                <Label htmlFor="mode-unpunished" className="font-normal cursor-pointer">
+                  Opponent blunders I didn't punish
+                </Label>
+              </div>
             </RadioGroup>
           </div>
 
@@ -78,7 +199,119 @@ export const ChessForm = ({ onSubmit, isLoading }: ChessFormProps) => {
             </div>
           </div>
 
-          <Button type="submit" className="w-full" disabled={isLoading || !username.trim()}>
+          {!isPgnImport && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="since">From</Label>
+                  <Input
+                    id="since"
+                    type="date"
+                    value={since}
+                    max={until || undefined}
+                    onChange={(e) => setSince(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="until">To</Label>
+                  <Input
+                    id="until"
+                    type="date"
+                    value={until}
+                    min={since || undefined}
+                    onChange={(e) => setUntil(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Time control</Label>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  size="sm"
+                  className="flex-wrap justify-start"
+                  value={timeClasses}
+                  onValueChange={(value: TimeClass[]) => setTimeClasses(value)}
+                >
+                  {TIME_CLASSES.map((timeClass) => (
+                    <ToggleGroupItem key={timeClass} value={timeClass} className="capitalize">
+                      {timeClass}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Result</Label>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  size="sm"
+                  className="justify-start"
+                  value={results}
+                  onValueChange={(value: GameResult[]) => setResults(value)}
+                >
+                  {GAME_RESULTS.map((result) => (
+                    <ToggleGroupItem key={result} value={result} className="capitalize">
+                      {result}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Playing as</Label>
+                <RadioGroup
+                  value={color}
+                  onValueChange={(value: PlayerColor | "any") => setColor(value)}
+                  className="flex gap-4"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="any" id="color-any" />
+                    <Label htmlFor="color-any" className="font-normal cursor-pointer">
+                      Either
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="white" id="color-white" />
+                    <Label htmlFor="color-white" className="font-normal cursor-pointer">
+                      White
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="black" id="color-black" />
+                    <Label htmlFor="color-black" className="font-normal cursor-pointer">
+                      Black
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="min-opponent-rating">Min. opponent rating</Label>
+                  <Input
+                    id="min-opponent-rating"
+                    type="number"
+                    min="0"
+                    step="50"
+                    placeholder="Any"
+                    value={minOpponentRating}
+                    onChange={(e) => setMinOpponentRating(e.target.value)}
+                  />
+                </div>
+                <div className="flex items-center space-x-2 h-10">
+                  <Switch id="rated-only" checked={ratedOnly} onCheckedChange={setRatedOnly} />
+                  <Label htmlFor="rated-only" className="font-normal cursor-pointer">
+                    Rated only
+                  </Label>
+                </div>
+              </div>
+            </>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isLoading || !canSubmit}>
             {isLoading ? "Analyzing..." : "Generate Tactics"}
           </Button>
         </form>
@@ -0,0 +1,431 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { Chess, Square } from "chess.js";
+import {
+  ANNOTATION_COLORS,
+  AnnotationColor,
+  BoardAnnotations,
+  EMPTY_ANNOTATIONS,
+  toggleArrow,
+  toggleSquare,
+} from "@/lib/annotations";
+import { BOARD_THEMES, PieceSet, pieceImageUrl } from "@/lib/boardThemes";
+import { useBoardSettings } from "@/hooks/use-board-settings";
+
+export type MoveSquares = { from: string; to: string };
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'];
+
+// How long an animated move takes to slide into place
+const MOVE_ANIMATION_MS = 250;
+
+// Filled glyphs for both sides, colored white or black so they read the same at any size
+const pieceSymbols: { [key: string]: string } = {
+  'p': '♟︎', 'n': '♞', 'b': '♝', 'r': '♜', 'q': '♛', 'k': '♚',
+};
+
+interface ChessPieceProps {
+  type: string;
+  color: 'w' | 'b';
+  pieceSet?: PieceSet;
+}
+
+export const ChessPiece = ({ type, color, pieceSet }: ChessPieceProps) => {
+  const [settings] = useBoardSettings();
+  const set = pieceSet ?? settings.pieceSet;
+
+  if (set !== 'unicode') {
+    return <img src={pieceImageUrl(set, color, type)} alt="" draggable={false} className="w-full h-full" />;
+  }
+
+  const isWhitePiece = color === 'w';
+  return (
+    <span
+      className={`font-bold leading-none ${isWhitePiece ? 'text-[#ffffff]' : 'text-[#000000]'}`}
+      style={{
+        filter: isWhitePiece
+          ? 'drop-shadow(0 2px 3px rgba(0,0,0,0.5))'
+          : 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
+        WebkitTextStroke: isWhitePiece ? '0.5px rgba(0,0,0,0.2)' : '0.5px rgba(0,0,0,0.4)'
+      }}
+    >
+      {pieceSymbols[type]}
+    </span>
+  );
+};
+
+const pieceNames: { [key: string]: string } = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king'
+};
+
+// Arrow keys move focus in screen directions, whichever way the board is turned
+const keyDirections: { [key: string]: [number, number] } = {
+  ArrowUp: [0, -1], ArrowDown: [0, 1], ArrowLeft: [-1, 0], ArrowRight: [1, 0]
+};
+
+// Lichess's modifiers for drawing: plain green, Shift red, Alt blue, both yellow
+const drawingColor = (e: React.PointerEvent): AnnotationColor => {
+  if (e.shiftKey && e.altKey) return 'Y';
+  if (e.shiftKey) return 'R';
+  if (e.altKey) return 'B';
+  return 'G';
+};
+
+interface ChessboardProps {
+  fen: string;
+  // The side shown at the bottom
+  orientation?: 'w' | 'b';
+  // Maximum width in pixels; the board shrinks with its container below that
+  size?: number;
+  showCoordinates?: boolean;
+  selectedSquare?: string | null;
+  legalTargets?: string[];
+  lastMove?: MoveSquares | null;
+  // Slides the piece on `to` in from `from` whenever a new object is passed
+  animatedMove?: MoveSquares | null;
+  // Without it the board is display-only
+  interactive?: boolean;
+  // Pieces on these squares can be picked up and dragged
+  canDrag?: (square: string) => boolean;
+  // Presses that are not drags, including keyboard activation
+  onSquareClick?: (square: string) => void;
+  onDragStart?: (square: string) => void;
+  onDrop?: (from: string, to: string) => void;
+  // Arrows and circled squares set by the app, e.g. to explain a solution
+  annotations?: BoardAnnotations;
+  // Arrows and circles the user draws with right-click-drag. Pass both to keep them (for
+  // example per move of a game); otherwise they are cleared whenever the position changes.
+  drawnAnnotations?: BoardAnnotations;
+  onDrawnAnnotationsChange?: (annotations: BoardAnnotations) => void;
+}
+
+export const Chessboard = ({
+  fen,
+  orientation = 'w',
+  size = 320,
+  showCoordinates,
+  selectedSquare,
+  legalTargets = [],
+  lastMove,
+  animatedMove,
+  interactive = false,
+  canDrag = () => false,
+  onSquareClick,
+  onDragStart,
+  onDrop,
+  annotations = EMPTY_ANNOTATIONS,
+  drawnAnnotations,
+  onDrawnAnnotationsChange,
+}: ChessboardProps) => {
+  const [settings] = useBoardSettings();
+  const theme = BOARD_THEMES[settings.boardTheme];
+  const coordinates = showCoordinates ?? settings.showCoordinates;
+
+  const chess = useMemo(() => new Chess(fen), [fen]);
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Marker ids are global to the page, and several boards can be on screen at once
+  const markerPrefix = `board${useId().replace(/:/g, '')}`;
+  const pieceRefs = useRef(new Map<string, HTMLDivElement>());
+  const squareRefs = useRef(new Map<string, HTMLButtonElement>());
+  // Pointer position is relative to the board
+  const [drag, setDrag] = useState<{ from: string; x: number; y: number; size: number; moved: boolean } | null>(null);
+  const [drawing, setDrawing] = useState<{ from: string; to: string; color: AnnotationColor } | null>(null);
+  const [ownDrawn, setOwnDrawn] = useState(EMPTY_ANNOTATIONS);
+  const drawn = drawnAnnotations ?? ownDrawn;
+  const setDrawn = onDrawnAnnotationsChange ?? setOwnDrawn;
+
+  useEffect(() => setOwnDrawn(EMPTY_ANNOTATIONS), [fen]);
+
+  // Display order: White sees a8 top-left, Black sees h1 top-left
+  const files = orientation === 'w' ? FILES : [...FILES].reverse();
+  const ranks = orientation === 'w' ? RANKS : [...RANKS].reverse();
+
+  // Only one square is in the tab order; arrow keys move between squares (roving tabindex)
+  const [focusedSquare, setFocusedSquare] = useState(`${files[0]}${ranks[7]}`);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const direction = keyDirections[e.key];
+    if (!direction) return;
+    e.preventDefault();
+
+    const column = Math.min(7, Math.max(0, files.indexOf(focusedSquare[0]) + direction[0]));
+    const row = Math.min(7, Math.max(0, ranks.indexOf(focusedSquare[1]) + direction[1]));
+    const square = `${files[column]}${ranks[row]}`;
+    setFocusedSquare(square);
+    squareRefs.current.get(square)?.focus();
+  };
+
+  const squareLabel = (square: string) => {
+    const piece = chess.get(square as Square);
+    const parts = [square, piece ? `${piece.color === 'w' ? 'white' : 'black'} ${pieceNames[piece.type]}` : 'empty'];
+    if (selectedSquare === square) parts.push('selected');
+    if (legalTargets.includes(square)) parts.push('legal move');
+    if (lastMove && (lastMove.from === square || lastMove.to === square)) parts.push('last move');
+    return parts.join(', ');
+  };
+
+  // Slide the moved piece from its origin square, in square-sized steps
+  useEffect(() => {
+    if (!animatedMove) return;
+    const piece = pieceRefs.current.get(animatedMove.to);
+    if (!piece?.animate) return;
+
+    // Steps in White's view, mirrored when Black is at the bottom
+    const flip = orientation === 'w' ? 1 : -1;
+    const dx = flip * (FILES.indexOf(animatedMove.from[0]) - FILES.indexOf(animatedMove.to[0]));
+    const dy = flip * (RANKS.indexOf(animatedMove.from[1]) - RANKS.indexOf(animatedMove.to[1]));
+    piece.animate(
+      [{ transform: `translate(${dx * 100}%, ${dy * 100}%)` }, { transform: 'translate(0, 0)' }],
+      { duration: MOVE_ANIMATION_MS, easing: 'ease-out' }
+    );
+  }, [animatedMove, orientation]);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = boardRef.current!.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const squareSize = rect.width / 8;
+    const column = Math.floor(x / squareSize);
+    const row = Math.floor(y / squareSize);
+    const square = column >= 0 && column < 8 && row >= 0 && row < 8 ? `${files[column]}${ranks[row]}` : null;
+    return { x, y, size: squareSize, square };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const { x, y, size: squareSize, square } = pointerPosition(e);
+    if (!square) return;
+
+    if (e.button === 2) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrawing({ from: square, to: square, color: drawingColor(e) });
+      return;
+    }
+
+    if (e.button !== 0) return;
+    // Like Lichess, any left click wipes what the user drew
+    if (drawn.arrows.length > 0 || drawn.squares.length > 0) setDrawn(EMPTY_ANNOTATIONS);
+    if (!interactive) return;
+
+    if (canDrag(square)) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ from: square, x, y, size: squareSize, moved: false });
+    } else {
+      onSquareClick?.(square);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawing) {
+      const { square } = pointerPosition(e);
+      if (square && square !== drawing.to) setDrawing({ ...drawing, to: square });
+      return;
+    }
+    if (!drag) return;
+    const { x, y } = pointerPosition(e);
+    if (!drag.moved) {
+      // Small wobbles while tapping (especially on touch screens) are still presses
+      if (Math.hypot(x - drag.x, y - drag.y) < drag.size / 8) return;
+      onDragStart?.(drag.from);
+    }
+    setDrag({ ...drag, x, y, moved: true });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drawing) {
+      const { from, to, color } = drawing;
+      setDrawing(null);
+      setDrawn(from === to ? toggleSquare(drawn, { square: from, color }) : toggleArrow(drawn, { from, to, color }));
+      return;
+    }
+    if (!drag) return;
+    const { square } = pointerPosition(e);
+    setDrag(null);
+
+    if (!drag.moved) {
+      onSquareClick?.(drag.from);
+    } else if (square && square !== drag.from) {
+      onDrop?.(drag.from, square);
+    }
+  };
+
+  const squareCenter = (square: string) => ({
+    x: files.indexOf(square[0]) + 0.5,
+    y: ranks.indexOf(square[1]) + 0.5,
+  });
+
+  const checkedKing = chess.inCheck()
+    ? chess.board().flat().find(p => p && p.type === 'k' && p.color === chess.turn())?.square
+    : undefined;
+  const dragged = drag?.moved ? chess.get(drag.from as Square) : undefined;
+
+  return (
+    <div
+      ref={boardRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setDrag(null);
+        setDrawing(null);
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+      onKeyDown={handleKeyDown}
+      role="group"
+      aria-label={`Chessboard, ${orientation === 'w' ? 'White' : 'Black'} at the bottom`}
+      className="relative grid grid-cols-8 gap-0 w-full mx-auto border-2 border-border rounded-lg overflow-hidden shadow-lg touch-none select-none"
+      // Pieces scale with the board through container query units
+      style={{ maxWidth: size, containerType: 'inline-size' }}
+    >
+      {ranks.map((rank, i) =>
+        files.map((file, j) => {
+          const squareNotation = `${file}${rank}`;
+          const square = chess.get(squareNotation as Square);
+          const isLight = (i + j) % 2 === 0;
+          const isSelected = selectedSquare === squareNotation;
+          const isTarget = legalTargets.includes(squareNotation);
+          const isLastMove = lastMove && (lastMove.from === squareNotation || lastMove.to === squareNotation);
+          const isDragged = drag?.moved && drag.from === squareNotation;
+
+          return (
+            <button
+              key={squareNotation}
+              ref={(el) => {
+                if (el) squareRefs.current.set(squareNotation, el);
+                else squareRefs.current.delete(squareNotation);
+              }}
+              type="button"
+              tabIndex={interactive && squareNotation === focusedSquare ? 0 : -1}
+              onFocus={() => setFocusedSquare(squareNotation)}
+              aria-label={squareLabel(squareNotation)}
+              aria-pressed={isSelected}
+              // Pointer input is handled by the board; this covers keyboard activation
+              onClick={(e) => interactive && e.detail === 0 && onSquareClick?.(squareNotation)}
+              aria-disabled={!interactive}
+              className={`relative aspect-square flex items-center justify-center ${
+                isSelected ? 'ring-4 ring-inset ring-primary' : ''
+              } ${interactive ? 'hover:brightness-95' : 'cursor-default'}`}
+              style={{ backgroundColor: isLight ? theme.light : theme.dark, fontSize: '9cqw' }}
+            >
+              {isLastMove && <span className="absolute inset-0 bg-yellow-300/40" />}
+              {checkedKing === squareNotation && (
+                <span
+                  className="absolute inset-0"
+                  style={{ background: 'radial-gradient(circle, rgba(255,0,0,0.8) 0%, rgba(255,0,0,0) 70%)' }}
+                />
+              )}
+              {isTarget && (
+                square
+                  ? <span className="absolute inset-0 rounded-full border-4 border-black/25" />
+                  : <span className="absolute w-1/4 h-1/4 rounded-full bg-black/25" />
+              )}
+              {coordinates && j === 0 && (
+                <span
+                  className="absolute left-0.5 top-0 text-[2.5cqw] font-semibold leading-tight"
+                  style={{ color: isLight ? theme.dark : theme.light }}
+                >
+                  {rank}
+                </span>
+              )}
+              {coordinates && i === 7 && (
+                <span
+                  className="absolute right-0.5 bottom-0 text-[2.5cqw] font-semibold leading-tight"
+                  style={{ color: isLight ? theme.dark : theme.light }}
+                >
+                  {file}
+                </span>
+              )}
+              {square && (
+                <div
+                  ref={(el) => {
+                    if (el) pieceRefs.current.set(squareNotation, el);
+                    else pieceRefs.current.delete(squareNotation);
+                  }}
+                  className={`relative z-10 w-full h-full flex items-center justify-center ${isDragged ? 'opacity-30' : ''}`}
+                >
+                  <ChessPiece type={square.type} color={square.color} />
+                </div>
+              )}
+            </button>
+          );
+        })
+      )}
+
+      <svg
+        viewBox="0 0 8 8"
+        className="pointer-events-none absolute inset-0 z-20 w-full h-full"
+        aria-hidden="true"
+      >
+        <defs>
+          {Object.entries(ANNOTATION_COLORS).map(([color, value]) => (
+            <marker
+              key={color}
+              id={`${markerPrefix}-arrowhead-${color}`}
+              viewBox="0 0 4 4"
+              refX="2"
+              refY="2"
+              markerWidth="4"
+              markerHeight="4"
+              orient="auto"
+            >
+              <path d="M0,0 L4,2 L0,4 z" fill={value} />
+            </marker>
+          ))}
+        </defs>
+        {[...annotations.squares, ...drawn.squares].map(({ square, color }, index) => {
+          const { x, y } = squareCenter(square);
+          return (
+            <circle
+              key={`mark-${index}`}
+              cx={x}
+              cy={y}
+              r={0.46}
+              fill="none"
+              stroke={ANNOTATION_COLORS[color]}
+              strokeWidth={0.07}
+              opacity={0.8}
+            />
+          );
+        })}
+        {[...annotations.arrows, ...drawn.arrows, ...(drawing && drawing.from !== drawing.to ? [drawing] : [])].map(
+          ({ from, to, color }, index) => {
+            const start = squareCenter(from);
+            const end = squareCenter(to);
+            // Stop short so the arrowhead ends at the center of the target square
+            const length = Math.hypot(end.x - start.x, end.y - start.y);
+            const shorten = 0.3 / length;
+            return (
+              <line
+                key={`arrow-${index}`}
+                x1={start.x}
+                y1={start.y}
+                x2={end.x - (end.x - start.x) * shorten}
+                y2={end.y - (end.y - start.y) * shorten}
+                stroke={ANNOTATION_COLORS[color]}
+                strokeWidth={0.15}
+                strokeLinecap="round"
+                markerEnd={`url(#${markerPrefix}-arrowhead-${color})`}
+                opacity={0.8}
+              />
+            );
+          }
+        )}
+      </svg>
+
+      {drag && dragged && (
+        <div
+          className="pointer-events-none absolute z-20 flex items-center justify-center"
+          style={{
+            left: drag.x - drag.size / 2,
+            top: drag.y - drag.size / 2,
+            width: drag.size,
+            height: drag.size,
+            fontSize: '11cqw',
+            transform: 'scale(1.1)'
+          }}
+        >
+          <ChessPiece type={dragged.type} color={dragged.color} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+interface EvalGraphProps {
+  // Centipawn evaluation from White's point of view for every position, starting before
+  // the first move; null for positions that were never analyzed
+  evaluations: Array<number | null>;
+  currentPly?: number;
+  // A ply to call out, e.g. where a puzzle was taken from
+  markedPly?: number;
+  onSelectPly?: (ply: number) => void;
+}
+
+// Evaluations beyond ±10 pawns (including mates) are drawn at the edge
+const EVAL_LIMIT = 10;
+
+const chartConfig = {
+  evaluation: {
+    label: "Evaluation",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatPly = (ply: number) => (ply === 0 ? "Start" : `${Math.ceil(ply / 2)}${ply % 2 === 1 ? "." : "..."}`);
+
+export const EvalGraph = ({ evaluations, currentPly, markedPly, onSelectPly }: EvalGraphProps) => {
+  const data = evaluations.map((centipawns, ply) => ({
+    ply,
+    evaluation: centipawns === null ? null : Math.max(-EVAL_LIMIT, Math.min(EVAL_LIMIT, centipawns / 100)),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full">
+      <AreaChart
+        data={data}
+        margin={{ left: 0, right: 8, top: 8, bottom: 0 }}
+        onClick={(state) => {
+          if (onSelectPly && state?.activeLabel !== undefined) {
+            onSelectPly(Number(state.activeLabel));
+          }
+        }}
+      >
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="ply" tickFormatter={formatPly} minTickGap={24} />
+        <YAxis domain={[-EVAL_LIMIT, EVAL_LIMIT]} width={32} tickCount={5} />
+        <ReferenceLine y={0} stroke="hsl(var(--border))" />
+        {markedPly !== undefined && (
+          <ReferenceLine
+            x={markedPly}
+            stroke="hsl(var(--primary))"
+            strokeDasharray="4 4"
+            label={{ value: "Puzzle", position: "insideTopLeft", fontSize: 10 }}
+          />
+        )}
+        {currentPly !== undefined && <ReferenceLine x={currentPly} stroke="hsl(var(--destructive))" />}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => formatPly(payload?.[0]?.payload?.ply ?? 0)}
+              formatter={(value) => {
+                const pawns = Number(value);
+                return `${pawns > 0 ? "+" : ""}${pawns.toFixed(1)}`;
+              }}
+            />
+          }
+        />
+        <Area
+          dataKey="evaluation"
+          type="monotone"
+          fill="var(--color-evaluation)"
+          fillOpacity={0.3}
+          stroke="var(--color-evaluation)"
+          connectNulls
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  );
+};
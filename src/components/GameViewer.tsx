@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from "react";
+import { Chess } from "chess.js";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { BoardAnnotations, EMPTY_ANNOTATIONS, annotatePgn, annotationsFromPgn } from "@/lib/annotations";
+import { Chessboard } from "./Chessboard";
+import { EvalGraph } from "./EvalGraph";
+import { SourceGame } from "@/lib/sourceGame";
+
+interface GameViewerProps {
+  game: SourceGame;
+  evaluations: Array<number | null>;
+  // Ply of the position the puzzle was taken from
+  puzzlePly: number;
+  playerSide: 'w' | 'b';
+}
+
+export const GameViewer = ({ game, evaluations, puzzlePly, playerSide }: GameViewerProps) => {
+  const [ply, setPly] = useState(puzzlePly);
+  // What the user drew on each position, starting from any arrows already in the PGN
+  const [annotations, setAnnotations] = useState<Map<number, BoardAnnotations>>(() => annotationsFromPgn(game.pgn));
+  const { toast } = useToast();
+
+  const history = useMemo(() => {
+    const chess = new Chess();
+    chess.loadPgn(game.pgn);
+    return chess.history({ verbose: true });
+  }, [game.pgn]);
+
+  const lastPly = history.length;
+  const fen = ply === 0 ? history[0]?.before : history[ply - 1]?.after;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") {
+        e.preventDefault();
+        setPly((current) => Math.max(0, current - 1));
+      } else if (e.key === "ArrowRight") {
+        e.preventDefault();
+        setPly((current) => Math.min(lastPly, current + 1));
+      } else if (e.key === "Home") {
+        e.preventDefault();
+        setPly(0);
+      } else if (e.key === "End") {
+        e.preventDefault();
+        setPly(lastPly);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [lastPly]);
+
+  const lastMove = ply > 0 ? history[ply - 1] : null;
+
+  // Drawings are exported as [%cal]/[%csl] comments, which Lichess and ChessBase read back
+  const copyPgn = async () => {
+    try {
+      await navigator.clipboard.writeText(annotatePgn(game.pgn, annotations));
+      toast({ title: "PGN copied", description: "Your arrows and highlights are included" });
+    } catch (error) {
+      console.error('Failed to copy PGN:', error);
+      toast({ title: "Error", description: "Could not copy to the clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center text-sm text-muted-foreground">
+        {game.white.name} vs {game.black.name} · {game.result}
+      </div>
+
+      <Chessboard
+        fen={fen}
+        orientation={playerSide}
+        lastMove={lastMove}
+        drawnAnnotations={annotations.get(ply) ?? EMPTY_ANNOTATIONS}
+        onDrawnAnnotationsChange={(drawn) => setAnnotations(new Map(annotations).set(ply, drawn))}
+      />
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => setPly(0)} disabled={ply === 0}>
+          ⏮
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={() => setPly(ply - 1)} disabled={ply === 0}>
+          ◀
+        </Button>
+        <Button variant="secondary" className="flex-1" onClick={() => setPly(puzzlePly)} disabled={ply === puzzlePly}>
+          Puzzle
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={() => setPly(ply + 1)} disabled={ply === lastPly}>
+          ▶
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={() => setPly(lastPly)} disabled={ply === lastPly}>
+          ⏭
+        </Button>
+      </div>
+
+      <EvalGraph evaluations={evaluations} currentPly={ply} markedPly={puzzlePly} onSelectPly={setPly} />
+
+      <div className="flex flex-wrap gap-x-1 gap-y-0.5 text-sm font-mono max-h-32 overflow-y-auto">
+        {history.map((move, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setPly(index + 1)}
+            className={`rounded px-1 hover:bg-muted ${ply === index + 1 ? 'bg-muted font-semibold' : ''} ${
+              index === puzzlePly ? 'text-primary underline' : ''
+            }`}
+          >
+            {move.color === 'w' ? `${Math.floor(index / 2) + 1}. ` : ''}
+            {move.san}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          Use ← and → to step through the game. Right-click and drag to draw arrows.
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/review" state={{ game }}>
+              Review game
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={copyPgn}>
+            Copy PGN
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,161 +1,363 @@
-import { useState, useEffect } from "react";
-import { Chess } from "chess.js";
+import { useState, useEffect, useRef } from "react";
+import { Chess, Square } from "chess.js";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Chessboard, ChessPiece, MoveSquares } from "./Chessboard";
+import { checkAlternative } from "@/lib/alternativeMoves";
+import { BoardAnnotations } from "@/lib/annotations";
+import { TacticalPattern, patternNames } from "@/lib/tacticalPatterns";
 
 interface InteractiveBoardProps {
   initialFen: string;
   solution: string[];
   onCorrect: () => void;
   onWrong: () => void;
+  // Called when the solution is revealed before the puzzle was solved
+  onGiveUp?: () => void;
   playerSide: 'w' | 'b';
+  // Themes named by the first hint
+  patterns?: TacticalPattern[];
+  // Called with the hint level (1-3) each time a hint is taken
+  onHint?: (level: number) => void;
+  // Timed modes move on after every outcome, so Reset and Show Solution are hidden
+  showControls?: boolean;
 }
 
-export const InteractiveBoard = ({ initialFen, solution, onCorrect, onWrong, playerSide }: InteractiveBoardProps) => {
+export const InteractiveBoard = ({
+  initialFen,
+  solution,
+  onCorrect,
+  onWrong,
+  onGiveUp,
+  playerSide,
+  patterns = [],
+  onHint,
+  showControls = true,
+}: InteractiveBoardProps) => {
   const [chess, setChess] = useState(new Chess(initialFen));
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [currentMoveIndex, setCurrentMoveIndex] = useState(0);
   const [message, setMessage] = useState("Your turn! Make the best move.");
   const [showingSolution, setShowingSolution] = useState(false);
+  // The line being played; it diverges from `solution` once an alternative move is accepted
+  const [line, setLine] = useState(solution);
+  const [checking, setChecking] = useState(false);
+  const [pendingPromotion, setPendingPromotion] = useState<MoveSquares | null>(null);
+  const [lastMove, setLastMove] = useState<MoveSquares | null>(null);
+  const [animatedMove, setAnimatedMove] = useState<MoveSquares | null>(null);
+  const [waitingForReply, setWaitingForReply] = useState(false);
+  const [typedMove, setTypedMove] = useState("");
+  // Hints for the current move: 1 names the theme, 2 shows the piece, 3 the target square
+  const [hintLevel, setHintLevel] = useState(0);
+  const [solved, setSolved] = useState(false);
+  const replyTimeout = useRef<ReturnType<typeof setTimeout>>();
+  // Read by engine verdicts, which resolve after the render that started them
+  const solutionRevealed = useRef(false);
 
-  // Use proper Unicode symbols - white pieces (filled) vs black pieces (outlined)
-  const pieceSymbols: { [key: string]: string } = {
-    'p': '♟︎', 'n': '♞', 'b': '♝', 'r': '♜', 'q': '♛', 'k': '♚',  // Black pieces
-    'P': '♙', 'N': '♘', 'B': '♗', 'R': '♖', 'Q': '♕', 'K': '♔'   // White pieces
+  // Input waits while a move is being checked or the opponent is replying: no premoves.
+  // A solved puzzle stays as it ended until it is reset.
+  const locked = showingSolution || checking || waitingForReply || solved;
+
+  useEffect(() => () => clearTimeout(replyTimeout.current), []);
+
+  const pieceNames: { [key: string]: string } = {
+    p: 'Pawn', n: 'Knight', b: 'Bishop', r: 'Rook', q: 'Queen', k: 'King'
   };
 
   const reset = () => {
+    clearTimeout(replyTimeout.current);
+    setWaitingForReply(false);
+    setLastMove(null);
+    setAnimatedMove(null);
     setChess(new Chess(initialFen));
     setSelectedSquare(null);
     setCurrentMoveIndex(0);
     setMessage("Your turn! Make the best move.");
     setShowingSolution(false);
+    setSolved(false);
+    solutionRevealed.current = false;
+    setLine(solution);
+    setHintLevel(0);
   };
 
   const showSolution = () => {
+    if (!solved && currentMoveIndex < line.length) {
+      onGiveUp?.();
+    }
+    clearTimeout(replyTimeout.current);
+    setWaitingForReply(false);
     setShowingSolution(true);
+    solutionRevealed.current = true;
+    setSelectedSquare(null);
+    setHintLevel(0);
     const solutionChess = new Chess(initialFen);
     
     // Play through the entire solution
+    let lastSolutionMove: MoveSquares | null = null;
     solution.forEach(move => {
-      solutionChess.move(move);
+      lastSolutionMove = solutionChess.move(move);
     });
     
     setChess(solutionChess);
+    setLastMove(lastSolutionMove);
     setMessage(`Solution: ${solution.join(' → ')}`);
     setCurrentMoveIndex(solution.length);
   };
 
-  const makeMove = (from: string, to: string) => {
-    const newChess = new Chess(chess.fen());
-    const move = newChess.move({ from, to, promotion: 'q' });
-    
-    if (!move) return false;
+  // Plays an accepted move and then the opponent's reply from `nextLine`, if there is one
+  const playLine = (newChess: Chess, move: MoveSquares, nextLine: string[], alsoGood: boolean) => {
+    setChess(newChess);
+    setSelectedSquare(null);
+    setLine(nextLine);
+    setLastMove({ from: move.from, to: move.to });
+    setHintLevel(0);
 
-    const expectedMove = solution[currentMoveIndex];
+    if (currentMoveIndex >= nextLine.length - 1 || newChess.isCheckmate()) {
+      setMessage(alsoGood ? "🎉 Also good! You solved it!" : "🎉 Perfect! You solved it!");
+      setSolved(true);
+      onCorrect();
+      return;
+    }
     
-    if (move.san === expectedMove) {
-      setChess(newChess);
-      setSelectedSquare(null);
-      
-      if (currentMoveIndex === solution.length - 1) {
-        setMessage("🎉 Perfect! You solved it!");
-        onCorrect();
-        return true;
-      }
-      
-      setCurrentMoveIndex(currentMoveIndex + 1);
-      setMessage("✓ Correct! Continue...");
-      
-      // Make opponent's move if there's another move in solution
-      if (currentMoveIndex + 1 < solution.length) {
-        setTimeout(() => {
-          const opponentChess = new Chess(newChess.fen());
-          opponentChess.move(solution[currentMoveIndex + 1]);
-          setChess(opponentChess);
-          setCurrentMoveIndex(currentMoveIndex + 2);
-          setMessage("Your turn again!");
-        }, 500);
-      }
-      
-      return true;
+    setCurrentMoveIndex(currentMoveIndex + 1);
+    setMessage(alsoGood ? "✓ Also good! Continue..." : "✓ Correct! Continue...");
+    
+    // Make opponent's move if there's another move in the line
+    if (currentMoveIndex + 1 < nextLine.length) {
+      setWaitingForReply(true);
+      replyTimeout.current = setTimeout(() => {
+        const opponentChess = new Chess(newChess.fen());
+        const reply = opponentChess.move(nextLine[currentMoveIndex + 1]);
+        setChess(opponentChess);
+        setLastMove({ from: reply.from, to: reply.to });
+        setAnimatedMove({ from: reply.from, to: reply.to });
+        setWaitingForReply(false);
+        setCurrentMoveIndex(currentMoveIndex + 2);
+
+        // Lines that end on the opponent's reply are solved once it has been shown
+        if (currentMoveIndex + 2 >= nextLine.length) {
+          setMessage("🎉 Perfect! You solved it!");
+          setSolved(true);
+          onCorrect();
+        } else {
+          setMessage(`Opponent played ${reply.san}. Your turn again!`);
+        }
+      }, 500);
+    }
+  };
+
+  const rejectMove = () => {
+    setMessage("❌ Not quite! Try again or reset.");
+    onWrong();
+  };
+
+  const makeMove = (from: string, to: string, promotion = 'q') => {
+    const newChess = new Chess(chess.fen());
+    let move;
+    try {
+      move = newChess.move({ from, to, promotion });
+    } catch {
+      return;
+    }
+
+    const played = line.slice(0, currentMoveIndex);
+
+    if (move.san === line[currentMoveIndex]) {
+      playLine(newChess, move, line, false);
+    } else if (newChess.isCheckmate()) {
+      // Any mate ends the puzzle, whichever one the engine preferred
+      playLine(newChess, move, [...played, move.san], true);
+    } else {
+      // Moves that keep (nearly) all of the advantage are fine too; the opponent then
+      // answers with the engine's reply to the new position
+      setChecking(true);
+      setMessage("Checking your move...");
+      checkAlternative(chess.fen(), newChess.fen())
+        .then(verdict => {
+          if (solutionRevealed.current) return;
+          if (verdict.accepted) {
+            playLine(newChess, move, [...played, move.san, ...verdict.continuation].slice(0, solution.length), true);
+          } else {
+            rejectMove();
+          }
+        })
+        .catch(error => {
+          console.error('Failed to check alternative move:', error);
+          if (!solutionRevealed.current) rejectMove();
+        })
+        .finally(() => setChecking(false));
+    }
+  };
+
+  // The move the hints point at: the next one in the line being played
+  const hintedMove = () => {
+    try {
+      return new Chess(chess.fen()).move(line[currentMoveIndex]);
+    } catch {
+      return null;
+    }
+  };
+
+  const showHint = () => {
+    const move = hintedMove();
+    if (!move || hintLevel >= 3) return;
+    const level = hintLevel + 1;
+    setHintLevel(level);
+    onHint?.(level);
+
+    if (level === 1) {
+      setMessage(patterns.length > 0
+        ? `💡 Look for ${patterns.map(pattern => patternNames[pattern]).join(' or ')}.`
+        : "💡 Look for checks, captures and threats.");
+    } else if (level === 2) {
+      setMessage(`💡 Move the ${pieceNames[move.piece].toLowerCase()} on ${move.from}.`);
     } else {
-      setMessage("❌ Not quite! Try again or reset.");
-      onWrong();
-      return false;
+      setMessage(`💡 Move it to ${move.to}.`);
     }
   };
 
-  const handleSquareClick = (square: string, piece: any) => {
-    if (selectedSquare) {
-      makeMove(selectedSquare, square);
-      setSelectedSquare(null);
-    } else if (piece && piece.color === chess.turn()) {
-      setSelectedSquare(square);
+  const hintAnnotations = (): BoardAnnotations | undefined => {
+    const move = hintLevel >= 2 ? hintedMove() : null;
+    if (!move) return undefined;
+    return {
+      arrows: [],
+      squares: hintLevel >= 3
+        ? [{ square: move.from, color: 'G' }, { square: move.to, color: 'G' }]
+        : [{ square: move.from, color: 'G' }]
+    };
+  };
+
+  const legalTargets = (from: string) =>
+    chess.moves({ square: from as Square, verbose: true }).map(m => m.to as string);
+
+  // Moves from `from` to `to` if that is legal, asking for a piece first on promotion
+  const tryMove = (from: string, to: string) => {
+    setSelectedSquare(null);
+    const candidates = chess.moves({ square: from as Square, verbose: true }).filter(m => m.to === to);
+    if (candidates.length === 0) return;
+
+    // Ask which piece to promote to; a knight is sometimes the only winning choice
+    if (candidates.some(m => m.promotion)) {
+      setPendingPromotion({ from, to });
+    } else {
+      makeMove(from, to);
     }
   };
 
-  const board = chess.board();
-  const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
-  
-  // Flip board if playing as black
-  const ranks = playerSide === 'w' 
-    ? ['8', '7', '6', '5', '4', '3', '2', '1']
-    : ['1', '2', '3', '4', '5', '6', '7', '8'];
-  
-  const displayBoard = playerSide === 'w' ? board : [...board].reverse();
-  const displayFiles = playerSide === 'w' ? files : [...files].reverse();
+  // Typed moves accept SAN (Nf3, exd8=N) or UCI (g1f3, e7d8n)
+  const submitTypedMove = () => {
+    const text = typedMove.trim();
+    if (!text) return;
+
+    const uci = text.match(/^([a-h][1-8])([a-h][1-8])([qrbn])?$/i);
+    let move;
+    try {
+      move = new Chess(chess.fen()).move(uci
+        ? { from: uci[1].toLowerCase(), to: uci[2].toLowerCase(), promotion: uci[3]?.toLowerCase() ?? 'q' }
+        : text);
+    } catch {
+      setMessage(`${text} isn't a legal move here.`);
+      return;
+    }
+
+    setTypedMove("");
+    setSelectedSquare(null);
+    makeMove(move.from, move.to, move.promotion ?? 'q');
+  };
+
+  const isOwnPiece = (square: string) => chess.get(square as Square)?.color === chess.turn();
+
+  // Select a piece, then its target; pressing the selected piece again deselects it
+  const handleSquareClick = (square: string) => {
+    if (isOwnPiece(square)) {
+      setSelectedSquare(selectedSquare === square ? null : square);
+    } else if (selectedSquare) {
+      tryMove(selectedSquare, square);
+    }
+  };
 
   return (
     <div className="space-y-4">
-      <div className="text-center font-medium">{message}</div>
-      
-      <div className="grid grid-cols-8 gap-0 w-full max-w-[320px] mx-auto border-2 border-border rounded-lg overflow-hidden shadow-lg">
-        {displayBoard.map((row, i) =>
-          row.map((square, j) => {
-            const isLight = (i + j) % 2 === 0;
-            const squareNotation = `${displayFiles[j]}${ranks[i]}`;
-            const isSelected = selectedSquare === squareNotation;
-            const isWhitePiece = square && square.color === 'w';
-            const piece = square ? pieceSymbols[square.type] : null;
-            
-            return (
-              <button
-                key={`${i}-${j}`}
-                onClick={() => handleSquareClick(squareNotation, square)}
-                disabled={showingSolution}
-                className={`aspect-square flex items-center justify-center text-4xl font-bold transition-colors ${
-                  isLight ? 'bg-[#f0d9b5]' : 'bg-[#b58863]'
-                } ${isSelected ? 'ring-4 ring-primary' : ''} ${
-                  showingSolution ? 'cursor-not-allowed' : 'hover:brightness-95'
-                }`}
-              >
-                {piece && (
-                  <span 
-                    className={isWhitePiece ? 'text-[#ffffff]' : 'text-[#000000]'}
-                    style={{
-                      filter: isWhitePiece
-                        ? 'drop-shadow(0 2px 3px rgba(0,0,0,0.5))'
-                        : 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
-                      WebkitTextStroke: isWhitePiece ? '0.5px rgba(0,0,0,0.2)' : '0.5px rgba(0,0,0,0.4)'
-                    }}
-                  >
-                    {piece}
-                  </span>
-                )}
-              </button>
-            );
-          })
-        )}
+      <div className="text-center font-medium" role="status" aria-live="polite">
+        {message}
       </div>
       
-      <div className="flex gap-2">
-        <Button onClick={reset} variant="outline" className="flex-1">
-          Reset
-        </Button>
-        <Button onClick={showSolution} variant="secondary" className="flex-1" disabled={showingSolution}>
-          Show Solution
+      <Chessboard
+        fen={chess.fen()}
+        orientation={playerSide}
+        selectedSquare={selectedSquare}
+        legalTargets={selectedSquare ? legalTargets(selectedSquare) : []}
+        lastMove={lastMove}
+        animatedMove={animatedMove}
+        interactive={!locked}
+        canDrag={isOwnPiece}
+        onSquareClick={handleSquareClick}
+        onDragStart={setSelectedSquare}
+        onDrop={tryMove}
+        annotations={hintAnnotations()}
+      />
+      
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitTypedMove();
+        }}
+      >
+        <Input
+          value={typedMove}
+          onChange={(e) => setTypedMove(e.target.value)}
+          placeholder="Type a move, e.g. Nf3 or g1f3"
+          aria-label="Type your move in SAN or UCI"
+          autoComplete="off"
+          spellCheck={false}
+          disabled={locked}
+          className="font-mono"
+        />
+        <Button type="submit" variant="outline" disabled={locked || !typedMove.trim()}>
+          Play
         </Button>
-      </div>
+      </form>
+
+      <Dialog open={!!pendingPromotion} onOpenChange={(open) => !open && setPendingPromotion(null)}>
+        <DialogContent className="max-w-xs">
+          <DialogHeader>
+            <DialogTitle>Promote to</DialogTitle>
+            <DialogDescription>Choose the piece your pawn becomes</DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-4 gap-2">
+            {['q', 'r', 'b', 'n'].map((type) => (
+              <Button
+                key={type}
+                variant="outline"
+                className="h-16 p-2 text-4xl bg-[#b58863] hover:bg-[#b58863]/90"
+                aria-label={pieceNames[type]}
+                onClick={() => {
+                  if (pendingPromotion) makeMove(pendingPromotion.from, pendingPromotion.to, type);
+                  setPendingPromotion(null);
+                }}
+              >
+                <ChessPiece type={type} color={chess.turn()} />
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {showControls && (
+        <div className="flex gap-2">
+          <Button onClick={reset} variant="outline" className="flex-1" disabled={checking}>
+            Reset
+          </Button>
+          <Button onClick={showHint} variant="outline" className="flex-1" disabled={locked || hintLevel >= 3}>
+            Hint{hintLevel > 0 && ` (${hintLevel}/3)`}
+          </Button>
+          <Button onClick={showSolution} variant="secondary" className="flex-1" disabled={showingSolution || checking || solved}>
+            Show Solution
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
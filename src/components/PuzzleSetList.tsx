@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  PUZZLE_SETS_QUERY_KEY,
+  PuzzleSet,
+  deletePuzzleSet,
+  listPuzzleSets,
+  renamePuzzleSet,
+} from "@/lib/puzzleSets";
+import { useToast } from "@/hooks/use-toast";
+
+interface PuzzleSetListProps {
+  activeSetId?: string;
+  onOpen: (set: PuzzleSet) => void;
+  onDeleted?: (id: string) => void;
+}
+
+export const PuzzleSetList = ({ activeSetId, onOpen, onDeleted }: PuzzleSetListProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const { data: sets = [], isLoading } = useQuery({
+    queryKey: PUZZLE_SETS_QUERY_KEY,
+    queryFn: listPuzzleSets,
+  });
+
+  const handleError = (error: unknown) => {
+    console.error('Puzzle set storage error:', error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "Could not update saved puzzle sets",
+      variant: "destructive",
+    });
+  };
+
+  const startRename = (set: PuzzleSet) => {
+    setEditingId(set.id);
+    setDraftName(set.name);
+  };
+
+  const commitRename = async (id: string) => {
+    try {
+      await renamePuzzleSet(id, draftName);
+      await queryClient.invalidateQueries({ queryKey: PUZZLE_SETS_QUERY_KEY });
+    } catch (error) {
+      handleError(error);
+    } finally {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deletePuzzleSet(id);
+      await queryClient.invalidateQueries({ queryKey: PUZZLE_SETS_QUERY_KEY });
+      onDeleted?.(id);
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  if (isLoading || sets.length === 0) return null;
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-lg">My puzzle sets</CardTitle>
+        <CardDescription>Saved on this device. Open a set to keep training on it.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sets.map((set) => (
+          <div
+            key={set.id}
+            className={`flex items-center gap-2 rounded-md border p-2 ${
+              set.id === activeSetId ? "border-primary" : ""
+            }`}
+          >
+            <div className="flex-1 min-w-0">
+              {editingId === set.id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    commitRename(set.id);
+                  }}
+                >
+                  <Input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={() => commitRename(set.id)}
+                    onKeyDown={(e) => e.key === "Escape" && setEditingId(null)}
+                    className="h-8"
+                  />
+                </form>
+              ) : (
+                <p className="truncate font-medium">{set.name}</p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {new Date(set.createdAt).toLocaleString()} · {set.gameCount} games
+              </p>
+            </div>
+            <Badge variant="outline">{set.tactics.length} puzzles</Badge>
+            <Button size="sm" onClick={() => onOpen(set)}>
+              Open
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => startRename(set)}>
+              Rename
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="ghost" className="text-destructive">
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{set.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This removes its {set.tactics.length} puzzles from this device.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => handleDelete(set.id)}>Delete</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,16 @@
+import { explainSolution } from "@/lib/explanations";
+
+interface SolutionExplanationProps {
+  fen: string;
+  solution: string[];
+}
+
+export const SolutionExplanation = ({ fen, solution }: SolutionExplanationProps) => (
+  <ol className="space-y-1 text-sm">
+    {explainSolution(fen, solution).map((step, index) => (
+      <li key={index} className={step.solver ? "" : "pl-4 text-muted-foreground"}>
+        {step.text}
+      </li>
+    ))}
+  </ol>
+);
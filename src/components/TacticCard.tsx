@@ -2,22 +2,83 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Chess } from "chess.js";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Chessboard } from "./Chessboard";
 import { InteractiveBoard } from "./InteractiveBoard";
+import { GameViewer } from "./GameViewer";
+import { SolutionExplanation } from "./SolutionExplanation";
+import { TacticMode } from "@/lib/tacticsGenerator";
+import { TacticalPattern, patternNames, tacticAnnotations } from "@/lib/tacticalPatterns";
+import { SourceGame } from "@/lib/sourceGame";
+import { REVEALING_HINT_LEVEL, ReviewGrade, gradeAttempt, recordAttempt } from "@/lib/srs";
+import { Rating } from "@/lib/glicko2";
+import { Difficulty, initialTacticRating } from "@/lib/puzzleRating";
 
 interface TacticCardProps {
   fen: string;
   solution: string[];
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: Difficulty;
+  rating?: Rating;
+  patterns?: TacticalPattern[];
   gameUrl: string;
   index: number;
   evaluation: number;
   playerSide: 'w' | 'b';
+  mode: TacticMode;
+  playedMove?: string;
+  centipawnLoss?: number;
+  game: SourceGame;
+  ply: number;
+  gameEvaluations: Array<number | null>;
 }
 
-export const TacticCard = ({ fen, solution, difficulty, gameUrl, index, evaluation, playerSide }: TacticCardProps) => {
+const modeDescriptions: Record<TacticMode, string> = {
+  missed: "You missed a winning move here",
+  found: "You found the winning move here",
+  unpunished: "Your opponent just blundered. Punish it!",
+};
+
+// For games where the user's side is unknown (e.g. PGN imports without a name), both sides'
+// moves are mined, so the text can't say "you"
+const neutralModeDescriptions: Record<TacticMode, string> = {
+  missed: "A winning move was missed here",
+  found: "The winning move was found here",
+  unpunished: "The last move was a blunder. Punish it!",
+};
+
+export const TacticCard = ({
+  fen,
+  solution,
+  difficulty,
+  rating,
+  patterns = [],
+  gameUrl,
+  index,
+  evaluation,
+  playerSide,
+  mode,
+  playedMove,
+  centipawnLoss,
+  game,
+  ply,
+  gameEvaluations,
+}: TacticCardProps) => {
   const [attempts, setAttempts] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [moveRevealed, setMoveRevealed] = useState(false);
   const [solved, setSolved] = useState(false);
+  const [recorded, setRecorded] = useState(false);
+  const [solutionShown, setSolutionShown] = useState(false);
+
+  // Only the first outcome counts for spaced repetition; replays after a reset are practice
+  const record = (grade: ReviewGrade) => {
+    if (recorded) return;
+    setRecorded(true);
+    recordAttempt({ fen, solution, difficulty, rating }, grade, attempts, hintsUsed).catch((error) => {
+      console.error('Failed to record attempt:', error);
+    });
+  };
 
   const formatEvaluation = (value: number) => {
     const absEval = Math.abs(value).toFixed(1);
@@ -30,57 +91,6 @@ export const TacticCard = ({ fen, solution, difficulty, gameUrl, index, evaluati
     hard: "bg-red-500/20 text-red-700 dark:text-red-400",
   };
 
-  const renderBoard = () => {
-    const chess = new Chess(fen);
-    const board = chess.board();
-    
-    // Flip board if playing as black
-    const displayBoard = playerSide === 'w' ? board : [...board].reverse();
-    const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
-    const displayFiles = playerSide === 'w' ? files : [...files].reverse();
-    
-    // Use proper Unicode symbols - white pieces (filled) vs black pieces (outlined)
-    const pieceSymbols: { [key: string]: string } = {
-      'p': '♟︎', 'n': '♞', 'b': '♝', 'r': '♜', 'q': '♛', 'k': '♚',  // Black pieces
-      'P': '♙', 'N': '♘', 'B': '♗', 'R': '♖', 'Q': '♕', 'K': '♔'   // White pieces
-    };
-
-    return (
-      <div className="grid grid-cols-8 gap-0 w-full max-w-[320px] mx-auto border-2 border-border rounded-lg overflow-hidden shadow-lg">
-        {displayBoard.map((row, i) =>
-          row.map((square, j) => {
-            const isLight = (i + j) % 2 === 0;
-            const isWhitePiece = square && square.color === 'w';
-            const piece = square ? pieceSymbols[square.type] : null;
-            
-            return (
-              <div
-                key={`${i}-${j}`}
-                className={`aspect-square flex items-center justify-center text-4xl font-bold ${
-                  isLight ? 'bg-[#f0d9b5]' : 'bg-[#b58863]'
-                }`}
-              >
-                {piece && (
-                  <span 
-                    className={isWhitePiece ? 'text-[#ffffff]' : 'text-[#000000]'}
-                    style={{
-                      filter: isWhitePiece
-                        ? 'drop-shadow(0 2px 3px rgba(0,0,0,0.5))'
-                        : 'drop-shadow(0 1px 2px rgba(0,0,0,0.3))',
-                      WebkitTextStroke: isWhitePiece ? '0.5px rgba(0,0,0,0.2)' : '0.5px rgba(0,0,0,0.4)'
-                    }}
-                  >
-                    {piece}
-                  </span>
-                )}
-              </div>
-            );
-          })
-        )}
-      </div>
-    );
-  };
-
   return (
     <Card className="w-full">
       <CardHeader>
@@ -88,14 +98,14 @@ export const TacticCard = ({ fen, solution, difficulty, gameUrl, index, evaluati
           <CardTitle className="text-lg">Tactic #{index + 1}</CardTitle>
           <div className="flex gap-2">
             <Badge className={difficultyColors[difficulty]}>
-              {difficulty}
+              {difficulty} · {Math.round(initialTacticRating({ rating, difficulty }).rating)}
             </Badge>
             <Badge variant="outline" className="font-mono">
               {formatEvaluation(evaluation)}
             </Badge>
           </div>
         </div>
-        <CardDescription>Find the best move</CardDescription>
+        <CardDescription>{(game.userColor ? modeDescriptions : neutralModeDescriptions)[mode] ?? "Find the best move"}</CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         <Tabs defaultValue="view" className="w-full">
@@ -104,8 +114,12 @@ export const TacticCard = ({ fen, solution, difficulty, gameUrl, index, evaluati
             <TabsTrigger value="play">Play {solved && "✓"}</TabsTrigger>
           </TabsList>
           <TabsContent value="view" className="space-y-4">
-            {renderBoard()}
-            <details className="text-sm">
+            <Chessboard
+              fen={fen}
+              orientation={playerSide}
+              annotations={solutionShown ? tacticAnnotations(fen, solution[0]) : undefined}
+            />
+            <details className="text-sm" onToggle={(e) => setSolutionShown(e.currentTarget.open)}>
               <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
                 Show solution
               </summary>
@@ -113,25 +127,79 @@ export const TacticCard = ({ fen, solution, difficulty, gameUrl, index, evaluati
                 <p className="font-mono text-xs bg-muted p-2 rounded">
                   {solution.join(' → ')}
                 </p>
-                <a
-                  href={gameUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline text-xs"
-                >
-                  View full game ↗
-                </a>
+                <SolutionExplanation fen={fen} solution={solution} />
+                {patterns.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {patterns.map((pattern) => (
+                      <Badge key={pattern} variant="secondary" className="text-xs font-normal">
+                        {patternNames[pattern].replace(/^an? /, '')}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {playedMove && (
+                  <p className="text-xs text-muted-foreground">
+                    {game.userColor ? "You played" : "The game continued"} <span className="font-mono font-semibold">{playedMove}</span>, better was{" "}
+                    <span className="font-mono font-semibold">{solution[0]}</span>
+                    {centipawnLoss !== undefined && ` (−${(centipawnLoss / 100).toFixed(1)})`}
+                  </p>
+                )}
+                <div className="flex items-center gap-3">
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="link" className="h-auto p-0 text-xs">
+                        Replay game
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-lg">
+                      <DialogHeader>
+                        <DialogTitle>Tactic #{index + 1}: source game</DialogTitle>
+                        <DialogDescription>
+                          The puzzle is the position before {Math.floor(ply / 2) + 1}
+                          {ply % 2 === 0 ? ". " : "... "}
+                          {playedMove ?? solution[0]}
+                        </DialogDescription>
+                      </DialogHeader>
+                      <GameViewer
+                        game={game}
+                        evaluations={gameEvaluations}
+                        puzzlePly={ply}
+                        playerSide={playerSide}
+                      />
+                    </DialogContent>
+                  </Dialog>
+                  {gameUrl && (
+                    <a
+                      href={gameUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary hover:underline text-xs"
+                    >
+                      View full game ↗
+                    </a>
+                  )}
+                </div>
               </div>
             </details>
           </TabsContent>
-          <TabsContent value="play">
+          <TabsContent value="play" className="space-y-4">
             <InteractiveBoard
               initialFen={fen}
               solution={solution}
-              onCorrect={() => setSolved(true)}
+              onCorrect={() => {
+                setSolved(true);
+                record(gradeAttempt(true, attempts, hintsUsed, moveRevealed));
+              }}
               onWrong={() => setAttempts(attempts + 1)}
+              onGiveUp={() => record(gradeAttempt(false, attempts, hintsUsed, moveRevealed))}
+              onHint={(level) => {
+                setHintsUsed(hintsUsed + 1);
+                if (level >= REVEALING_HINT_LEVEL) setMoveRevealed(true);
+              }}
               playerSide={playerSide}
+              patterns={patterns}
             />
+            {solved && <SolutionExplanation fen={fen} solution={solution} />}
           </TabsContent>
         </Tabs>
       </CardContent>
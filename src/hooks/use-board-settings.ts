@@ -0,0 +1,30 @@
+import * as React from "react";
+import { BoardSettings, loadBoardSettings, saveBoardSettings } from "@/lib/boardThemes";
+
+// Shared by every board on the page, so changing the theme in one place restyles them all
+let settings: BoardSettings | null = null;
+const listeners = new Set<() => void>();
+
+const getSettings = () => {
+  if (!settings) settings = loadBoardSettings();
+  return settings;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export function useBoardSettings() {
+  const current = React.useSyncExternalStore(subscribe, getSettings);
+
+  const update = React.useCallback((changes: Partial<BoardSettings>) => {
+    settings = { ...getSettings(), ...changes };
+    saveBoardSettings(settings);
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [current, update] as const;
+}
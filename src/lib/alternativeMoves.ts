@@ -0,0 +1,37 @@
+import { getWorkerPool } from './workerPool';
+
+// Centipawns a move may fall short of the engine's best and still be accepted
+export const ALTERNATIVE_TOLERANCE = 50;
+
+// Shallower than puzzle generation: the player is waiting on the answer
+const CHECK_DEPTH = 12;
+
+// Beyond this (including every mate) a win is a win, so mating faster or slower doesn't matter
+const SCORE_CAP = 1000;
+
+const capScore = (score: number): number => Math.max(-SCORE_CAP, Math.min(SCORE_CAP, score));
+
+export interface AlternativeVerdict {
+  accepted: boolean;
+  centipawnLoss: number;
+  // Engine line from the position after the alternative, starting with the opponent's reply
+  continuation: string[];
+}
+
+// Compares a move that differs from the puzzle's solution against the engine's best move
+export const checkAlternative = async (fenBefore: string, fenAfter: string): Promise<AlternativeVerdict> => {
+  const workerPool = getWorkerPool();
+  const [best, alternative] = await Promise.all([
+    workerPool.analyze(fenBefore, CHECK_DEPTH),
+    workerPool.analyze(fenAfter, CHECK_DEPTH)
+  ]);
+
+  // The alternative is scored from the opponent's side
+  const centipawnLoss = capScore(best.score) - capScore(-alternative.score);
+
+  return {
+    accepted: centipawnLoss <= ALTERNATIVE_TOLERANCE,
+    centipawnLoss,
+    continuation: alternative.moves.map(move => move.san)
+  };
+};
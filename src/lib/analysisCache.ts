@@ -0,0 +1,79 @@
+import { withStore } from './db';
+import { AnalysisResult, ENGINE_VERSION, engineDepth } from './engineTypes';
+import { playUciLine } from './uciLine';
+
+interface CachedAnalysis {
+  key: string;
+  // Principal variation as UCI moves, replayed against the requested FEN on a hit
+  pv: string[];
+  score: number;
+  createdAt: number;
+}
+
+// Roughly 10 MB; past this the oldest entries make room for new ones
+const MAX_CACHED_ANALYSES = 50000;
+// How many writes go by between size checks; the first write of a session always checks
+const EVICTION_INTERVAL = 500;
+
+let writesSinceEviction = EVICTION_INTERVAL;
+
+// The move clocks don't change the best move, so positions reached at different points of a
+// game share an entry
+export const normalizeFen = (fen: string): string => fen.trim().split(/\s+/).slice(0, 4).join(' ');
+
+const cacheKey = (fen: string, depth: number): string =>
+  `${ENGINE_VERSION}|${engineDepth(depth)}|${normalizeFen(fen)}`;
+
+export const getCachedAnalysis = async (
+  fen: string,
+  depth: number
+): Promise<Omit<AnalysisResult, 'id'> | null> => {
+  const entry = await withStore<CachedAnalysis | undefined>('analysisCache', 'readonly', store =>
+    store.get(cacheKey(fen, depth))
+  );
+  if (!entry) return null;
+
+  const moves = playUciLine(fen, entry.pv);
+  // A PV that no longer replays means the entry is corrupt; analyze again
+  if (moves.length !== entry.pv.length) return null;
+
+  return { fen, moves, score: entry.score, nodesSearched: 0 };
+};
+
+export const putCachedAnalysis = async (result: AnalysisResult, depth: number): Promise<void> => {
+  const entry: CachedAnalysis = {
+    key: cacheKey(result.fen, depth),
+    pv: result.moves.map(move => move.lan),
+    score: result.score,
+    createdAt: Date.now()
+  };
+  await withStore('analysisCache', 'readwrite', store => store.put(entry));
+
+  if (++writesSinceEviction >= EVICTION_INTERVAL) {
+    writesSinceEviction = 0;
+    await evictOldAnalyses();
+  }
+};
+
+// Deletes the oldest entries, by the createdAt index, until at most `maxEntries` remain
+export const evictOldAnalyses = async (maxEntries = MAX_CACHED_ANALYSES): Promise<void> => {
+  const count = await withStore<number>('analysisCache', 'readonly', store => store.count());
+  let excess = count - maxEntries;
+  if (excess <= 0) return;
+
+  await withStore('analysisCache', 'readwrite', store => {
+    const request = store.index('createdAt').openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && excess-- > 0) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    return request;
+  });
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  await withStore('analysisCache', 'readwrite', store => store.clear());
+};
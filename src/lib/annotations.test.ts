@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { annotatePgn, annotationsFromPgn, formatAnnotations, parseAnnotations } from './annotations';
+
+const GAME = `[Event "Casual game"]
+[White "Alice"]
+[Black "Bob"]
+[Result "*"]
+
+1. e4 {good [%cal Ge2e4]} e5 $2 (1... c5 2. Nf3 {Sicilian}) 2. Nf3 {[%clk 0:04:59]} Nc6 *`;
+
+describe('parseAnnotations', () => {
+  it('reads arrows and squares and ignores other commands', () => {
+    expect(parseAnnotations('nice [%csl Gd4,Rf7] [%cal Ge2e4,Xa1a2] [%clk 0:01:00]')).toEqual({
+      arrows: [{ color: 'G', from: 'e2', to: 'e4' }],
+      squares: [{ color: 'G', square: 'd4' }, { color: 'R', square: 'f7' }]
+    });
+  });
+
+  it('formats what it parses', () => {
+    const annotations = parseAnnotations('[%csl Gd4] [%cal Re2e4]');
+    expect(parseAnnotations(formatAnnotations(annotations))).toEqual(annotations);
+  });
+});
+
+describe('annotatePgn', () => {
+  it('returns the game unchanged when its annotations are unchanged', () => {
+    expect(annotatePgn(GAME, annotationsFromPgn(GAME))).toBe(GAME);
+  });
+
+  it('keeps headers, NAGs, variations and other comment text', () => {
+    const byPly = new Map([
+      [1, { arrows: [], squares: [{ square: 'e4', color: 'R' as const }] }],
+      [3, { arrows: [{ from: 'f3', to: 'e5', color: 'B' as const }], squares: [] }],
+      [4, { arrows: [{ from: 'c6', to: 'd4', color: 'Y' as const }], squares: [] }]
+    ]);
+    const annotated = annotatePgn(GAME, byPly);
+
+    expect(annotated).toBe(`[Event "Casual game"]
+[White "Alice"]
+[Black "Bob"]
+[Result "*"]
+
+1. e4 {good [%csl Re4]} e5 $2 (1... c5 2. Nf3 {Sicilian}) 2. Nf3 {[%clk 0:04:59] [%cal Bf3e5]} Nc6 {[%cal Yc6d4]} *`);
+    expect(annotationsFromPgn(annotated)).toEqual(byPly);
+  });
+
+  it('drops comments that held nothing but annotations', () => {
+    const pgn = '1. e4 {[%cal Ge2e4]} e5 *';
+    expect(annotatePgn(pgn, new Map())).toBe('1. e4 e5 *');
+  });
+
+  it('annotates the starting position before the first move', () => {
+    const byPly = new Map([[0, { arrows: [], squares: [{ square: 'd4', color: 'G' as const }] }]]);
+    expect(annotatePgn('1.e4 e5 *', byPly)).toBe('{[%csl Gd4]} 1.e4 e5 *');
+  });
+});
@@ -0,0 +1,213 @@
+import { Chess } from 'chess.js';
+
+// The PGN comment colors used by Lichess and ChessBase: green, red, yellow, blue
+export type AnnotationColor = 'G' | 'R' | 'Y' | 'B';
+
+export interface Arrow {
+  from: string;
+  to: string;
+  color: AnnotationColor;
+}
+
+export interface SquareMark {
+  square: string;
+  color: AnnotationColor;
+}
+
+export interface BoardAnnotations {
+  arrows: Arrow[];
+  squares: SquareMark[];
+}
+
+export const EMPTY_ANNOTATIONS: BoardAnnotations = { arrows: [], squares: [] };
+
+export const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  G: '#15781b',
+  R: '#882020',
+  Y: '#e68f00',
+  B: '#003088',
+};
+
+const SQUARE = '[a-h][1-8]';
+const ARROW_PATTERN = new RegExp(`^([GRYB])(${SQUARE})(${SQUARE})$`);
+const MARK_PATTERN = new RegExp(`^([GRYB])(${SQUARE})$`);
+const COMMAND_PATTERN = /\[%(cal|csl)\s+([^\]]*)\]/g;
+
+export const isEmptyAnnotations = (annotations: BoardAnnotations): boolean =>
+  annotations.arrows.length === 0 && annotations.squares.length === 0;
+
+// Reads `[%cal Ge2e4,Rd1h5]` and `[%csl Gd4]` out of a PGN comment; other text is ignored
+export const parseAnnotations = (comment: string): BoardAnnotations => {
+  const arrows: Arrow[] = [];
+  const squares: SquareMark[] = [];
+
+  for (const [, command, values] of comment.matchAll(COMMAND_PATTERN)) {
+    for (const value of values.split(',').map(v => v.trim())) {
+      if (command === 'cal') {
+        const match = value.match(ARROW_PATTERN);
+        if (match) arrows.push({ color: match[1] as AnnotationColor, from: match[2], to: match[3] });
+      } else {
+        const match = value.match(MARK_PATTERN);
+        if (match) squares.push({ color: match[1] as AnnotationColor, square: match[2] });
+      }
+    }
+  }
+
+  return { arrows, squares };
+};
+
+export const formatAnnotations = ({ arrows, squares }: BoardAnnotations): string => {
+  const parts: string[] = [];
+  if (squares.length > 0) {
+    parts.push(`[%csl ${squares.map(mark => `${mark.color}${mark.square}`).join(',')}]`);
+  }
+  if (arrows.length > 0) {
+    parts.push(`[%cal ${arrows.map(arrow => `${arrow.color}${arrow.from}${arrow.to}`).join(',')}]`);
+  }
+  return parts.join(' ');
+};
+
+// Drawing the same arrow again removes it; in another color it is recolored
+export const toggleArrow = (annotations: BoardAnnotations, arrow: Arrow): BoardAnnotations => {
+  const existing = annotations.arrows.find(a => a.from === arrow.from && a.to === arrow.to);
+  const others = annotations.arrows.filter(a => a !== existing);
+  return {
+    ...annotations,
+    arrows: existing?.color === arrow.color ? others : [...others, arrow]
+  };
+};
+
+export const toggleSquare = (annotations: BoardAnnotations, mark: SquareMark): BoardAnnotations => {
+  const existing = annotations.squares.find(s => s.square === mark.square);
+  const others = annotations.squares.filter(s => s !== existing);
+  return {
+    ...annotations,
+    squares: existing?.color === mark.color ? others : [...others, mark]
+  };
+};
+
+const withoutAnnotations = (comment: string): string => comment.replace(COMMAND_PATTERN, '').replace(/\s+/g, ' ').trim();
+
+// Annotations in a game's comments, by ply (0 is the starting position)
+export const annotationsFromPgn = (pgn: string): Map<number, BoardAnnotations> => {
+  const chess = new Chess();
+  chess.loadPgn(pgn);
+  const comments = new Map(chess.getComments().map(({ fen, comment }) => [fen, comment]));
+
+  const byPly = new Map<number, BoardAnnotations>();
+  const history = chess.history({ verbose: true });
+  const fens = [history[0]?.before ?? chess.fen(), ...history.map(move => move.after)];
+  fens.forEach((fen, ply) => {
+    const annotations = parseAnnotations(comments.get(fen) ?? '');
+    if (!isEmptyAnnotations(annotations)) byPly.set(ply, annotations);
+  });
+  return byPly;
+};
+
+interface MovetextToken {
+  kind: 'move' | 'nag' | 'comment' | 'other';
+  text: string;
+}
+
+// Splits movetext into moves, NAGs and comments. Variations, line comments, move numbers and
+// whitespace are kept as opaque tokens so the text can be put back together unchanged.
+const tokenizeMovetext = (text: string): MovetextToken[] => {
+  const tokens: MovetextToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    let end = i + 1;
+
+    if (char === '{') {
+      const close = text.indexOf('}', i);
+      end = close === -1 ? text.length : close + 1;
+      tokens.push({ kind: 'comment', text: text.slice(i, end) });
+    } else if (char === '(') {
+      // Skip to the matching parenthesis, stepping over comments that may contain some
+      let depth = 1;
+      while (end < text.length && depth > 0) {
+        if (text[end] === '{') {
+          const close = text.indexOf('}', end);
+          end = close === -1 ? text.length : close + 1;
+          continue;
+        }
+        if (text[end] === '(') depth++;
+        if (text[end] === ')') depth--;
+        end++;
+      }
+      tokens.push({ kind: 'other', text: text.slice(i, end) });
+    } else if (char === ';') {
+      const newline = text.indexOf('\n', i);
+      end = newline === -1 ? text.length : newline;
+      tokens.push({ kind: 'other', text: text.slice(i, end) });
+    } else if (/\s/.test(char)) {
+      while (end < text.length && /\s/.test(text[end])) end++;
+      tokens.push({ kind: 'other', text: text.slice(i, end) });
+    } else {
+      while (end < text.length && !/[\s{}();]/.test(text[end])) end++;
+      const word = text.slice(i, end);
+      // A move number may be written against its move, as in "1.e4"
+      const [, number, rest] = word.match(/^(\d+\.+)(.*)$/) ?? [null, '', word];
+      if (number) tokens.push({ kind: 'other', text: number });
+      if (rest) {
+        const kind = /^\$\d+$/.test(rest) ? 'nag' : /^[a-hKQRBNO]/.test(rest) ? 'move' : 'other';
+        tokens.push({ kind, text: rest });
+      }
+    }
+    i = end;
+  }
+
+  return tokens;
+};
+
+// Rewrites the [%cal]/[%csl] commands in a game's comments to the given annotations. Everything
+// else (headers, other comment text, NAGs and variations) is left as it was.
+export const annotatePgn = (pgn: string, byPly: Map<number, BoardAnnotations>): string => {
+  const headerEnd = pgn.match(/^(?:[ \t]*(?:\[[^\n]*)?\r?\n)*/)?.[0].length ?? 0;
+  const tokens = tokenizeMovetext(pgn.slice(headerEnd));
+
+  // Comments on each ply, and the token a new comment would follow (-1: before the first move)
+  const comments = new Map<number, number[]>();
+  const insertAfter = new Map<number, number>([[0, -1]]);
+  let ply = 0;
+  tokens.forEach((token, index) => {
+    if (token.kind === 'move') {
+      ply++;
+      insertAfter.set(ply, index);
+    } else if (token.kind === 'nag' && ply > 0) {
+      insertAfter.set(ply, index);
+    } else if (token.kind === 'comment') {
+      comments.set(ply, [...(comments.get(ply) ?? []), index]);
+    }
+  });
+
+  const output = tokens.map(token => token.text);
+  let prefix = '';
+  for (let current = 0; current <= ply; current++) {
+    const wanted = formatAnnotations(byPly.get(current) ?? EMPTY_ANNOTATIONS);
+    const indexes = comments.get(current) ?? [];
+
+    indexes.forEach((index, position) => {
+      const body = tokens[index].text.replace(/^\{|\}$/g, '');
+      const hasCommands = body.replace(COMMAND_PATTERN, '') !== body;
+      const add = position === 0 ? wanted : '';
+      if (!hasCommands && !add) return;
+
+      const text = [hasCommands ? withoutAnnotations(body) : body.trim(), add].filter(Boolean).join(' ');
+      output[index] = text ? `{${text}}` : '';
+      // Don't leave a double space where a comment was removed
+      if (!text && tokens[index - 1]?.kind === 'other' && /^\s+$/.test(tokens[index - 1].text)) {
+        output[index - 1] = '';
+      }
+    });
+
+    if (wanted && indexes.length === 0) {
+      const after = insertAfter.get(current)!;
+      if (after === -1) prefix = `{${wanted}} `;
+      else output[after] += ` {${wanted}}`;
+    }
+  }
+
+  return pgn.slice(0, headerEnd) + prefix + output.join('');
+};
@@ -0,0 +1,46 @@
+import { Square } from 'chess.js';
+
+export type Direction = [number, number];
+
+export const ORTHOGONAL: Direction[] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+export const DIAGONAL: Direction[] = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// The directions each sliding piece moves in
+export const sliderDirections: { [key: string]: Direction[] } = {
+  r: ORTHOGONAL,
+  b: DIAGONAL,
+  q: [...ORTHOGONAL, ...DIAGONAL]
+};
+
+// 0-based file and rank: a1 is [0, 0], h8 is [7, 7]
+export const squareCoords = (square: string): Direction =>
+  [square.charCodeAt(0) - 97, Number(square[1]) - 1];
+
+export const toSquare = (file: number, rank: number): Square | null =>
+  file >= 0 && file < 8 && rank >= 0 && rank < 8
+    ? (`${'abcdefgh'[file]}${rank + 1}` as Square)
+    : null;
+
+// The squares strictly between two squares on a shared rank, file or diagonal; empty otherwise
+export const squaresBetween = (from: string, to: string): Square[] => {
+  const [fromFile, fromRank] = squareCoords(from);
+  const [toFile, toRank] = squareCoords(to);
+  const df = Math.sign(toFile - fromFile);
+  const dr = Math.sign(toRank - fromRank);
+  const distance = Math.max(Math.abs(toFile - fromFile), Math.abs(toRank - fromRank));
+  if (fromFile + df * distance !== toFile || fromRank + dr * distance !== toRank) return [];
+
+  const squares: Square[] = [];
+  for (let step = 1; step < distance; step++) {
+    squares.push(toSquare(fromFile + df * step, fromRank + dr * step)!);
+  }
+  return squares;
+};
+
+// The squares a king on `square` could step to
+export const kingNeighbours = (square: string): Square[] => {
+  const [file, rank] = squareCoords(square);
+  return [...ORTHOGONAL, ...DIAGONAL]
+    .map(([df, dr]) => toSquare(file + df, rank + dr))
+    .filter((neighbour): neighbour is Square => neighbour !== null);
+};
@@ -0,0 +1,50 @@
+export type BoardTheme = 'brown' | 'blue' | 'green' | 'gray';
+export type PieceSet = 'unicode' | 'cburnett';
+
+export const BOARD_THEMES: Record<BoardTheme, { label: string; light: string; dark: string }> = {
+  brown: { label: 'Brown', light: '#f0d9b5', dark: '#b58863' },
+  blue: { label: 'Blue', light: '#dee3e6', dark: '#8ca2ad' },
+  green: { label: 'Green', light: '#ffffdd', dark: '#86a666' },
+  gray: { label: 'Gray', light: '#e3e3e3', dark: '#a3a3a3' },
+};
+
+export const PIECE_SETS: Record<PieceSet, { label: string }> = {
+  unicode: { label: 'Classic' },
+  cburnett: { label: 'Cburnett' },
+};
+
+// SVG sets ship with the app under public/pieces, one file per piece (wK.svg, bN.svg, ...).
+// See NOTICE for their licenses.
+export const pieceImageUrl = (set: Exclude<PieceSet, 'unicode'>, color: 'w' | 'b', type: string): string =>
+  `${import.meta.env.BASE_URL}pieces/${set}/${color}${type.toUpperCase()}.svg`;
+
+export interface BoardSettings {
+  boardTheme: BoardTheme;
+  pieceSet: PieceSet;
+  showCoordinates: boolean;
+}
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  boardTheme: 'brown',
+  pieceSet: 'unicode',
+  showCoordinates: true,
+};
+
+const STORAGE_KEY = 'boardSettings';
+
+export const loadBoardSettings = (): BoardSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_BOARD_SETTINGS, ...stored };
+    // Ignore values from older versions that no longer exist
+    if (!(settings.boardTheme in BOARD_THEMES)) settings.boardTheme = DEFAULT_BOARD_SETTINGS.boardTheme;
+    if (!(settings.pieceSet in PIECE_SETS)) settings.pieceSet = DEFAULT_BOARD_SETTINGS.pieceSet;
+    return settings;
+  } catch {
+    return DEFAULT_BOARD_SETTINGS;
+  }
+};
+
+export const saveBoardSettings = (settings: BoardSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -1,9 +1,13 @@
-import { Chess } from 'chess.js';
+import { AnalysisResult, ENGINE_URL, WorkerRequest, WorkerResponse, engineDepth } from './engineTypes';
+import { playUciLine } from './uciLine';
+
+type EngineLine = Omit<AnalysisResult, 'id'>;
 
 let stockfish: Worker | null = null;
 let analysisQueue: Map<string, {
-  resolve: (result: any) => void;
-  reject: (error: any) => void;
+  resolve: (result: EngineLine) => void;
+  reject: (error: Error) => void;
+  fen: string;
   depth: number;
 }> = new Map();
 
@@ -19,7 +23,7 @@ const initStockfish = async () => {
   return new Promise<void>((resolve, reject) => {
     try {
       // Use Stockfish.js from CDN (official build)
-      stockfish = new Worker('https://unpkg.com/stockfish.js@10.0.2/stockfish.js');
+      stockfish = new Worker(ENGINE_URL);
       
       let ready = false;
       
@@ -98,24 +102,11 @@ const completeAnalysis = () => {
   
   const analysis = analysisQueue.get(currentAnalysisId);
   if (analysis) {
-    const chess = new Chess();
-    const moves = pv.map(uciMove => {
-      try {
-        const from = uciMove.substring(0, 2);
-        const to = uciMove.substring(2, 4);
-        const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
-        
-        const move = chess.move({ from, to, promotion });
-        return move;
-      } catch {
-        return null;
-      }
-    }).filter(Boolean);
-    
+    // The PV is relative to the analyzed position, not the starting position
     analysis.resolve({
-      moves,
+      moves: playUciLine(analysis.fen, pv),
       score,
-      fen: '',
+      fen: analysis.fen,
       nodesSearched: 0
     });
     
@@ -141,17 +132,14 @@ const processNextAnalysis = () => {
   currentAnalysisId = nextId;
   const { depth } = analysis;
   
-  // Extract FEN from the analysis ID (format: "fen_depth_randomid")
-  const fenPart = nextId.split('_depth_')[0];
-  
-  stockfish.postMessage(`position fen ${fenPart}`);
+  stockfish.postMessage(`position fen ${analysis.fen}`);
   stockfish.postMessage(`go depth ${depth}`);
 };
 
-const analyzePosition = (fen: string, depth: number): Promise<any> => {
+const analyzePosition = (fen: string, depth: number): Promise<EngineLine> => {
   return new Promise((resolve, reject) => {
     const id = `${fen}_depth_${depth}_${Math.random()}`;
-    analysisQueue.set(id, { resolve, reject, depth });
+    analysisQueue.set(id, { resolve, reject, fen, depth });
     
     if (!currentAnalysisId) {
       processNextAnalysis();
@@ -159,22 +147,23 @@ const analyzePosition = (fen: string, depth: number): Promise<any> => {
   });
 };
 
+const reply = (message: WorkerResponse) => {
+  self.postMessage(message);
+};
+
 // Worker message handler
-self.onmessage = async (e: MessageEvent) => {
-  const { type, data } = e.data;
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
   
-  if (type === 'analyze') {
-    const { fen, depth, id } = data;
+  if (request.type === 'analyze') {
+    const { fen, depth, id } = request.data;
     
     try {
       await initStockfish();
       
-      // Cap depth at 18 for reasonable performance
-      const safeDepth = Math.min(Math.max(depth, 10), 18);
-      
-      const result = await analyzePosition(fen, safeDepth);
+      const result = await analyzePosition(fen, engineDepth(depth));
       
-      self.postMessage({
+      reply({
         type: 'result',
         data: {
           id,
@@ -186,7 +175,7 @@ self.onmessage = async (e: MessageEvent) => {
       });
     } catch (error) {
       console.error('Worker analysis error:', error);
-      self.postMessage({
+      reply({
         type: 'error',
         data: {
           id,
@@ -194,8 +183,11 @@ self.onmessage = async (e: MessageEvent) => {
         }
       });
     }
-  } else if (type === 'clear-cache') {
-    analysisQueue.clear();
-    currentAnalysisId = null;
+  } else if (request.type === 'clear-cache') {
+    // Drop Stockfish's hash table; queued analyses still complete. Never sent mid-search,
+    // since the pool only clears idle workers.
+    if (stockfish && !currentAnalysisId) {
+      stockfish.postMessage('ucinewgame');
+    }
   }
 };
@@ -0,0 +1,61 @@
+const DB_NAME = 'chess-tactics-hub';
+const DB_VERSION = 4;
+
+export type StoreName = 'puzzleSets' | 'analysisCache' | 'reviews' | 'profiles' | 'tacticRatings';
+
+// Each version only adds what it introduced, so existing data survives upgrades
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const puzzleSets = db.createObjectStore('puzzleSets', { keyPath: 'id' });
+    puzzleSets.createIndex('createdAt', 'createdAt');
+    puzzleSets.createIndex('username', 'username');
+  }
+  if (oldVersion < 2) {
+    const analysisCache = db.createObjectStore('analysisCache', { keyPath: 'key' });
+    analysisCache.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 3) {
+    const reviews = db.createObjectStore('reviews', { keyPath: 'key' });
+    reviews.createIndex('due', 'due');
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore('profiles', { keyPath: 'id' });
+    db.createObjectStore('tacticRatings', { keyPath: 'key' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open local database'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Resolves once the transaction commits, so callers never observe uncommitted writes
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+};
@@ -0,0 +1,33 @@
+import { Move } from 'chess.js';
+
+export const ENGINE_URL = 'https://unpkg.com/stockfish.js@10.0.2/stockfish.js';
+
+// Stored with every cached analysis; bump when the engine or its settings change
+export const ENGINE_VERSION = 'stockfish.js@10.0.2/hash64';
+
+// Requested depths are capped at 18 for reasonable performance
+export const engineDepth = (depth: number): number => Math.min(Math.max(depth, 10), 18);
+
+// chess.js moves lose their methods when posted between threads, so only the data fields cross
+export type EngineMove = Pick<
+  Move,
+  'color' | 'from' | 'to' | 'piece' | 'captured' | 'promotion' | 'flags' | 'san' | 'lan' | 'before' | 'after'
+>;
+
+export interface AnalysisResult {
+  id: number;
+  fen: string;
+  // Principal variation starting from `fen`
+  moves: EngineMove[];
+  // Centipawns from the side to move; mates are encoded as ±(10000 - moves to mate)
+  score: number;
+  nodesSearched: number;
+}
+
+export type WorkerRequest =
+  | { type: 'analyze'; data: { fen: string; depth: number; id: number } }
+  | { type: 'clear-cache' };
+
+export type WorkerResponse =
+  | { type: 'result'; data: AnalysisResult }
+  | { type: 'error'; data: { id: number; error: string } };
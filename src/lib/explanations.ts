@@ -0,0 +1,125 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import { forkTargets } from './tacticalPatterns';
+
+export interface ExplanationStep {
+  san: string;
+  // Whether the move is the solver's, rather than the opponent's reply
+  solver: boolean;
+  text: string;
+}
+
+const pieceNames: Record<PieceSymbol, string> = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king'
+};
+
+// Plain point values, which is how players count material
+const pointValues: Record<PieceSymbol, number> = {
+  p: 1, n: 3, b: 3, r: 5, q: 9, k: 0
+};
+
+const material = (chess: Chess, color: Color): number =>
+  chess.board().flat().reduce((sum, piece) => {
+    if (!piece) return sum;
+    return sum + (piece.color === color ? pointValues[piece.type] : -pointValues[piece.type]);
+  }, 0);
+
+const describePiece = (chess: Chess, square: string): string => {
+  const piece = chess.get(square as Square);
+  if (!piece) return square;
+  return piece.type === 'k' ? 'the king' : `the ${pieceNames[piece.type]} on ${square}`;
+};
+
+const joinTargets = (targets: string[]): string =>
+  targets.length <= 1 ? targets.join('') : `${targets.slice(0, -1).join(', ')} and ${targets[targets.length - 1]}`;
+
+// Enemy pieces the moved piece now attacks that it outranks or that nobody defends
+const threatenedPieces = (chess: Chess, move: Move): string[] =>
+  chess.board().flat()
+    .filter(target => target && target.color !== move.color && target.type !== 'k')
+    .filter(target => chess.attackers(target!.square, move.color).includes(move.to))
+    .filter(target =>
+      pointValues[target!.type] > pointValues[move.piece] ||
+      chess.attackers(target!.square, target!.color).length === 0)
+    .map(target => describePiece(chess, target!.square));
+
+const solverMoveText = (chess: Chess, move: Move): string => {
+  if (chess.isCheckmate()) return `${move.san} is checkmate.`;
+
+  const clauses: string[] = [];
+  if (move.promotion) {
+    clauses.push(`promotes to a ${pieceNames[move.promotion]}`);
+  }
+
+  // The king is named first: "forks the king and the rook"
+  const targets = forkTargets(chess, move)
+    .sort((a, b) => Number(chess.get(b as Square)?.type === 'k') - Number(chess.get(a as Square)?.type === 'k'))
+    .map(square => describePiece(chess, square));
+
+  if (targets.length >= 2) {
+    clauses.push(`forks ${joinTargets(targets)}`);
+  } else {
+    if (move.captured) clauses.push(`takes the ${pieceNames[move.captured]}`);
+    if (chess.inCheck()) clauses.push('gives check');
+    const threats = threatenedPieces(chess, move);
+    if (threats.length > 0) clauses.push(`attacks ${joinTargets(threats)}`);
+  }
+
+  // Left where the opponent can win it: undefended, or attacked by something cheaper
+  const takers = chess.attackers(move.to, chess.turn()).map(square => chess.get(square)!);
+  const cheapestTaker = Math.min(...takers.map(piece => pointValues[piece.type]));
+  const defended = chess.attackers(move.to, move.color).length > 0;
+  const value = pointValues[move.piece];
+  if (takers.length > 0 && move.piece !== 'k' && (!defended || cheapestTaker < value) &&
+      (move.captured ? pointValues[move.captured] : 0) < value) {
+    clauses.push(`offers the ${pieceNames[move.piece]}`);
+  }
+
+  if (clauses.length === 0) return `${move.san} is the quiet key move.`;
+  return `${move.san} ${joinTargets(clauses)}.`;
+};
+
+const replyText = (before: Chess, move: Move): string => {
+  if (move.captured) return `${move.san} takes the ${pieceNames[move.captured]}.`;
+  if (before.moves().length === 1) return `${move.san} is forced.`;
+  if (before.inCheck()) return `${move.san} gets out of check.`;
+  return `${move.san} is the best defence.`;
+};
+
+const materialLabels: { [gain: number]: string } = {
+  1: 'a pawn', 3: 'a piece', 5: 'a rook', 9: 'the queen'
+};
+
+const materialSummary = (gain: number): string => {
+  if (gain <= 0) return '';
+  return materialLabels[gain] ? `The line wins ${materialLabels[gain]}.` : `The line comes out ${gain} points ahead.`;
+};
+
+// One sentence per move of the solution, the solver's moves first in each pair, ending with
+// what the line wins
+export const explainSolution = (fen: string, solution: string[]): ExplanationStep[] => {
+  const chess = new Chess(fen);
+  const solverColor = chess.turn();
+  const startMaterial = material(chess, solverColor);
+  const steps: ExplanationStep[] = [];
+
+  for (const san of solution) {
+    const before = new Chess(chess.fen());
+    let move: Move;
+    try {
+      move = chess.move(san);
+    } catch {
+      break;
+    }
+
+    const solver = move.color === solverColor;
+    steps.push({ san: move.san, solver, text: solver ? solverMoveText(chess, move) : replyText(before, move) });
+  }
+
+  const last = steps[steps.length - 1];
+  if (last && !chess.isCheckmate()) {
+    const summary = materialSummary(material(chess, solverColor) - startMaterial);
+    if (summary) last.text = `${last.text} ${summary}`;
+  }
+
+  return steps;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { archiveInRange, matchesFilters, parseFilters } from './gameFilters';
+import { SourceGame } from './sourceGame';
+
+const game = (overrides: Partial<SourceGame> = {}): SourceGame => ({
+  pgn: '1. e4 e5 1-0',
+  url: '',
+  platform: 'lichess',
+  white: { name: 'alice', rating: 1600 },
+  black: { name: 'bob', rating: 1400 },
+  rated: true,
+  timeControl: '180+2',
+  timeClass: 'blitz',
+  result: '1-0',
+  playedAt: Date.UTC(2024, 5, 15),
+  userColor: 'white',
+  ...overrides
+});
+
+describe('parseFilters', () => {
+  it('reads dates as ISO strings or epoch milliseconds', () => {
+    const filters = parseFilters({ since: '2024-01-01T00:00:00Z', until: Date.UTC(2024, 11, 31) });
+    expect(filters.since?.getTime()).toBe(Date.UTC(2024, 0, 1));
+    expect(filters.until?.getTime()).toBe(Date.UTC(2024, 11, 31));
+  });
+
+  it('drops values it does not understand', () => {
+    expect(parseFilters({ color: 'green', ratedOnly: 'yes', timeClasses: 'blitz' })).toEqual({
+      timeClasses: undefined,
+      ratedOnly: false,
+      results: undefined,
+      color: undefined,
+      since: undefined,
+      until: undefined,
+      minOpponentRating: undefined
+    });
+  });
+
+  it('keeps the rest as given', () => {
+    const filters = parseFilters({
+      timeClasses: ['blitz'],
+      ratedOnly: true,
+      results: ['won'],
+      color: 'black',
+      minOpponentRating: '1500'
+    });
+    expect(filters).toMatchObject({
+      timeClasses: ['blitz'],
+      ratedOnly: true,
+      results: ['won'],
+      color: 'black',
+      minOpponentRating: 1500
+    });
+  });
+});
+
+describe('matchesFilters', () => {
+  it('matches everything without filters', () => {
+    expect(matchesFilters(game(), {})).toBe(true);
+  });
+
+  it('filters on time class and rated games', () => {
+    expect(matchesFilters(game(), { timeClasses: ['blitz', 'rapid'] })).toBe(true);
+    expect(matchesFilters(game(), { timeClasses: ['bullet'] })).toBe(false);
+    expect(matchesFilters(game({ timeClass: null }), { timeClasses: ['blitz'] })).toBe(false);
+    expect(matchesFilters(game({ rated: false }), { ratedOnly: true })).toBe(false);
+  });
+
+  it('reads results from the user\'s side', () => {
+    expect(matchesFilters(game(), { results: ['won'] })).toBe(true);
+    expect(matchesFilters(game({ userColor: 'black' }), { results: ['won'] })).toBe(false);
+    expect(matchesFilters(game({ userColor: 'black' }), { results: ['lost'] })).toBe(true);
+    expect(matchesFilters(game({ result: '1/2-1/2' }), { results: ['drawn'] })).toBe(true);
+    expect(matchesFilters(game({ userColor: null }), { results: ['won', 'lost', 'drawn'] })).toBe(false);
+  });
+
+  it('filters on the user\'s color', () => {
+    expect(matchesFilters(game(), { color: 'white' })).toBe(true);
+    expect(matchesFilters(game(), { color: 'black' })).toBe(false);
+  });
+
+  it('includes games played on either bound of the date range', () => {
+    const playedAt = Date.UTC(2024, 5, 15);
+    expect(matchesFilters(game(), { since: new Date(playedAt), until: new Date(playedAt) })).toBe(true);
+    expect(matchesFilters(game(), { since: new Date(playedAt + 1) })).toBe(false);
+    expect(matchesFilters(game(), { until: new Date(playedAt - 1) })).toBe(false);
+    expect(matchesFilters(game({ playedAt: null }), { since: new Date(playedAt) })).toBe(false);
+  });
+
+  it('filters on the opponent\'s rating', () => {
+    expect(matchesFilters(game(), { minOpponentRating: 1400 })).toBe(true);
+    expect(matchesFilters(game(), { minOpponentRating: 1500 })).toBe(false);
+    expect(matchesFilters(game({ userColor: 'black' }), { minOpponentRating: 1500 })).toBe(true);
+    expect(matchesFilters(game({ black: { name: 'bob', rating: null } }), { minOpponentRating: 1000 })).toBe(false);
+  });
+});
+
+describe('archiveInRange', () => {
+  const archive = 'https://api.chess.com/pub/player/alice/games/2024/06';
+
+  it('keeps months that overlap the range', () => {
+    expect(archiveInRange(archive, {})).toBe(true);
+    expect(archiveInRange(archive, { since: new Date(Date.UTC(2024, 5, 30)) })).toBe(true);
+    expect(archiveInRange(archive, { until: new Date(Date.UTC(2024, 5, 1)) })).toBe(true);
+  });
+
+  it('skips months outside the range and URLs it cannot read', () => {
+    expect(archiveInRange(archive, { since: new Date(Date.UTC(2024, 6, 1)) })).toBe(false);
+    expect(archiveInRange(archive, { until: new Date(Date.UTC(2024, 4, 31)) })).toBe(false);
+    expect(archiveInRange('https://api.chess.com/pub/player/alice/games', {})).toBe(false);
+  });
+});
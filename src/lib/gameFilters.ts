@@ -0,0 +1,19 @@
+// The filter model lives with the edge function so both sides apply the same rules
+export {
+  GAME_RESULTS,
+  TIME_CLASSES,
+  archiveInRange,
+  chessComTimeClass,
+  lichessPerfTypes,
+  lichessTimeClass,
+  matchesFilters,
+  needsClientSideFiltering,
+  parseFilters,
+} from '../../supabase/functions/_shared/gameFilters';
+export type {
+  DateRange,
+  GameFilters,
+  GameResult,
+  PlayerColor,
+  TimeClass,
+} from '../../supabase/functions/_shared/gameFilters';
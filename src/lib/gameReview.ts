@@ -0,0 +1,159 @@
+import { Chess } from 'chess.js';
+import { AnalysisResult } from './engineTypes';
+import { SourceGame } from './sourceGame';
+import { getWorkerPool } from './workerPool';
+
+export type MoveJudgement = 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  ply: number;
+  san: string;
+  color: 'w' | 'b';
+  fenBefore: string;
+  fenAfter: string;
+  // Engine evaluations in centipawns from White's point of view
+  evalBefore: number;
+  evalAfter: number;
+  bestMove: string | null;
+  centipawnLoss: number;
+  // Win probability (0-100) the mover gave away with this move
+  winChanceDrop: number;
+  accuracy: number;
+  judgement: MoveJudgement | null;
+}
+
+export interface PlayerReview {
+  accuracy: number;
+  averageCentipawnLoss: number;
+  judgements: Record<MoveJudgement, number>;
+}
+
+export interface GameReview {
+  game: SourceGame;
+  moves: ReviewedMove[];
+  white: PlayerReview;
+  black: PlayerReview;
+}
+
+// Lichess thresholds on win-probability drop, in percentage points
+const JUDGEMENT_THRESHOLDS: Array<[MoveJudgement, number]> = [
+  ['blunder', 15],
+  ['mistake', 10],
+  ['inaccuracy', 5]
+];
+
+// Same cap as the tactics generator: past this the position is simply won
+const SCORE_CAP = 1000;
+const MATE_SCORE = 10000;
+
+const capScore = (score: number): number => Math.max(-SCORE_CAP, Math.min(SCORE_CAP, score));
+
+// Lichess win% model fitted on rated games
+export const winChance = (centipawns: number): number =>
+  50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+
+export const moveAccuracy = (winChanceDrop: number): number =>
+  Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * winChanceDrop) - 3.1669));
+
+const judge = (winChanceDrop: number): MoveJudgement | null => {
+  const match = JUDGEMENT_THRESHOLDS.find(([, threshold]) => winChanceDrop >= threshold);
+  return match ? match[0] : null;
+};
+
+// Lichess blends the arithmetic and harmonic means so a few blunders weigh in without dominating
+const gameAccuracy = (accuracies: number[]): number => {
+  if (accuracies.length === 0) return 100;
+  const mean = accuracies.reduce((sum, value) => sum + value, 0) / accuracies.length;
+  const harmonic = accuracies.length / accuracies.reduce((sum, value) => sum + 1 / Math.max(value, 1), 0);
+  return (mean + harmonic) / 2;
+};
+
+const summarize = (moves: ReviewedMove[]): PlayerReview => {
+  const judgements: Record<MoveJudgement, number> = { inaccuracy: 0, mistake: 0, blunder: 0 };
+  moves.forEach(move => {
+    if (move.judgement) judgements[move.judgement]++;
+  });
+
+  return {
+    accuracy: gameAccuracy(moves.map(move => move.accuracy)),
+    averageCentipawnLoss: moves.length
+      ? moves.reduce((sum, move) => sum + move.centipawnLoss, 0) / moves.length
+      : 0,
+    judgements
+  };
+};
+
+// Game-over positions are scored directly instead of asking the engine
+const terminalScore = (fen: string): number | null => {
+  const chess = new Chess(fen);
+  if (chess.isCheckmate()) return chess.turn() === 'w' ? -MATE_SCORE : MATE_SCORE;
+  if (chess.isDraw() || chess.isStalemate()) return 0;
+  return null;
+};
+
+export const reviewGame = async (
+  game: SourceGame,
+  onProgress?: (progress: number, status: string) => void,
+  depth = 15
+): Promise<GameReview> => {
+  const chess = new Chess();
+  chess.loadPgn(game.pgn);
+  const history = chess.history({ verbose: true });
+
+  if (history.length === 0) {
+    throw new Error('Game has no moves to review');
+  }
+
+  const fens = [...history.map(move => move.before), history[history.length - 1].after];
+  const workerPool = getWorkerPool();
+  const whiteEvals: number[] = new Array(fens.length);
+  const analyses: Array<AnalysisResult | null> = new Array(fens.length).fill(null);
+  let completed = 0;
+
+  await Promise.all(fens.map(async (fen, index) => {
+    const terminal = terminalScore(fen);
+
+    if (terminal !== null) {
+      whiteEvals[index] = terminal;
+    } else {
+      const result = await workerPool.analyze(fen, depth);
+      const sideToMove = new Chess(fen).turn();
+      analyses[index] = result;
+      whiteEvals[index] = sideToMove === 'w' ? result.score : -result.score;
+    }
+
+    completed++;
+    if (onProgress) {
+      onProgress((completed / fens.length) * 100, `Analyzed ${completed}/${fens.length} positions`);
+    }
+  }));
+
+  const moves: ReviewedMove[] = history.map((move, ply) => {
+    const perspective = move.color === 'w' ? 1 : -1;
+    const before = capScore(whiteEvals[ply] * perspective);
+    const after = capScore(whiteEvals[ply + 1] * perspective);
+    const winChanceDrop = Math.max(0, winChance(before) - winChance(after));
+
+    return {
+      ply,
+      san: move.san,
+      color: move.color,
+      fenBefore: move.before,
+      fenAfter: move.after,
+      evalBefore: whiteEvals[ply],
+      evalAfter: whiteEvals[ply + 1],
+      bestMove: analyses[ply]?.moves[0]?.san ?? null,
+      centipawnLoss: Math.max(0, before - after),
+      winChanceDrop,
+      accuracy: moveAccuracy(winChanceDrop),
+      judgement: judge(winChanceDrop)
+    };
+  });
+
+  return {
+    game,
+    moves,
+    white: summarize(moves.filter(move => move.color === 'w')),
+    black: summarize(moves.filter(move => move.color === 'b'))
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RATING, Rating, updateRating } from './glicko2';
+
+const established: Rating = { rating: 1500, deviation: 50, volatility: 0.06 };
+
+describe('updateRating', () => {
+  it('moves equal players by the same amount in opposite directions', () => {
+    const won = updateRating(DEFAULT_RATING, DEFAULT_RATING, 1);
+    const lost = updateRating(DEFAULT_RATING, DEFAULT_RATING, 0);
+
+    expect(won.rating).toBeGreaterThan(1500);
+    expect(lost.rating).toBeLessThan(1500);
+    expect(won.rating - 1500).toBeCloseTo(1500 - lost.rating);
+  });
+
+  it('leaves the rating alone on the expected score', () => {
+    expect(updateRating(DEFAULT_RATING, DEFAULT_RATING, 0.5).rating).toBeCloseTo(1500);
+  });
+
+  it('becomes more certain with every result', () => {
+    expect(updateRating(DEFAULT_RATING, DEFAULT_RATING, 1).deviation).toBeLessThan(DEFAULT_RATING.deviation);
+  });
+
+  it('keeps the deviation within its bounds', () => {
+    const settled = { rating: 1500, deviation: 45, volatility: 0.01 };
+    expect(updateRating(settled, established, 1).deviation).toBe(45);
+
+    const uncertain = { ...DEFAULT_RATING, volatility: 2 };
+    expect(updateRating(uncertain, established, 1).deviation).toBeLessThanOrEqual(350);
+  });
+
+  it('keeps the volatility steady on unsurprising results', () => {
+    expect(updateRating(established, established, 1).volatility).toBeCloseTo(0.06, 3);
+  });
+
+  it('gains more from beating a stronger opponent', () => {
+    const upset = updateRating(established, { ...established, rating: 1800 }, 1);
+    const expected = updateRating(established, { ...established, rating: 1200 }, 1);
+    expect(upset.rating - 1500).toBeGreaterThan(expected.rating - 1500);
+  });
+
+  it('weighs results against an uncertain opponent less', () => {
+    const certain = updateRating(established, established, 1);
+    const uncertain = updateRating(established, { ...established, deviation: 350 }, 1);
+    expect(uncertain.rating).toBeLessThan(certain.rating);
+  });
+});
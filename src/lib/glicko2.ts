@@ -0,0 +1,83 @@
+// Glicko-2 (Glickman, 2012) with every puzzle attempt treated as its own rating period
+
+export interface Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export const DEFAULT_RATING: Rating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how fast volatility changes; the paper suggests 0.3-1.2
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+// Keeps established ratings responsive and new ones from swinging by hundreds of points
+const MIN_DEVIATION = 45;
+const MAX_DEVIATION = 350;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number) =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Step 5 of the paper: solve for the new volatility with the Illinois algorithm
+const nextVolatility = (phi: number, sigma: number, v: number, delta: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * (phi * phi + v + ex) ** 2) - (x - a) / (TAU * TAU);
+  };
+
+  let low = a;
+  let high: number;
+  if (delta * delta > phi * phi + v) {
+    high = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    high = a - k * TAU;
+  }
+
+  let fLow = f(low);
+  let fHigh = f(high);
+  while (Math.abs(high - low) > CONVERGENCE) {
+    const c = low + ((low - high) * fLow) / (fHigh - fLow);
+    const fC = f(c);
+    if (fC * fHigh <= 0) {
+      low = high;
+      fLow = fHigh;
+    } else {
+      fLow /= 2;
+    }
+    high = c;
+    fHigh = fC;
+  }
+
+  return Math.exp(low / 2);
+};
+
+// `score` is 1 for a win, 0 for a loss and anything in between for partial credit
+export const updateRating = (player: Rating, opponent: Rating, score: number): Rating => {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const opponentMu = (opponent.rating - 1500) / SCALE;
+  const opponentPhi = opponent.deviation / SCALE;
+
+  const expected = expectedScore(mu, opponentMu, opponentPhi);
+  const gPhi = g(opponentPhi);
+  const v = 1 / (gPhi * gPhi * expected * (1 - expected));
+  const delta = v * gPhi * (score - expected);
+
+  const volatility = nextVolatility(phi, player.volatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - expected);
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: Math.min(MAX_DEVIATION, Math.max(MIN_DEVIATION, newPhi * SCALE)),
+    volatility
+  };
+};
@@ -0,0 +1,271 @@
+import { TacticalPattern } from './tacticalPatterns';
+
+export interface MotifFixture {
+  pattern: TacticalPattern;
+  // Whether the detector for `pattern` should fire on this line
+  detected: boolean;
+  name: string;
+  fen: string;
+  // The puzzle's first move and the engine's continuation, in SAN
+  moves: string[];
+}
+
+// Réti-Tartakower, Vienna 1910, after 8...Nxe4: the queen is given up to open the d-file
+const RETI_TARTAKOWER = 'rnb1kb1r/pp3ppp/2p5/4q3/4n3/3Q4/PPPB1PPP/2KR1BNR w kq - 0 9';
+
+// For every motif a textbook example, a minimal one and a near miss: a line that looks alike
+// but lacks what makes the motif, so detectors are checked for false positives as well
+export const motifFixtures: MotifFixture[] = [
+  {
+    pattern: 'double-check',
+    detected: true,
+    name: 'Réti-Tartakower: 10. Bg5+ checks with bishop and rook',
+    fen: RETI_TARTAKOWER,
+    moves: ['Qd8+', 'Kxd8', 'Bg5+', 'Kc7', 'Bd8#']
+  },
+  {
+    pattern: 'double-check',
+    detected: true,
+    name: 'rook checks and uncovers the bishop',
+    fen: '3k4/4R3/8/8/7B/8/8/3K4 w - - 0 1',
+    moves: ['Rd7+', 'Kc8']
+  },
+  {
+    pattern: 'double-check',
+    detected: false,
+    name: 'near miss: the rook uncovers the bishop but gives no check itself',
+    fen: '3k4/4R3/8/8/7B/8/8/3K4 w - - 0 1',
+    moves: ['Re2+', 'Kc8']
+  },
+  {
+    pattern: 'discovered-attack',
+    detected: true,
+    name: 'Réti-Tartakower: the bishop move uncovers the rook on d1',
+    fen: RETI_TARTAKOWER,
+    moves: ['Qd8+', 'Kxd8', 'Bg5+', 'Kc7', 'Bd8#']
+  },
+  {
+    pattern: 'discovered-attack',
+    detected: true,
+    name: 'the rook moves off the bishop\'s diagonal',
+    fen: '3k4/4R3/8/8/7B/8/8/3K4 w - - 0 1',
+    moves: ['Re2+', 'Kc8']
+  },
+  {
+    pattern: 'discovered-attack',
+    detected: false,
+    name: 'near miss: the bishop behind the rook is on another diagonal',
+    fen: '3k4/4R3/8/8/8/7B/8/3K4 w - - 0 1',
+    moves: ['Rd7+', 'Ke8']
+  },
+  {
+    pattern: 'skewer',
+    detected: true,
+    name: 'bishop check along the diagonal wins the rook behind the king',
+    fen: '6r1/pp5p/4k3/8/8/8/PPP3PP/5BK1 w - - 0 1',
+    moves: ['Bc4+', 'Kf6', 'Bxg8']
+  },
+  {
+    pattern: 'skewer',
+    detected: true,
+    name: 'rook check on the file wins the queen behind the king',
+    fen: '4q3/8/4k3/8/8/8/8/R5K1 w - - 0 1',
+    moves: ['Re1+', 'Kd7', 'Rxe8', 'Kxe8']
+  },
+  {
+    pattern: 'skewer',
+    detected: false,
+    name: 'near miss: the piece in front is worth less than the one behind, which makes it a pin',
+    fen: '4q2k/8/4r3/8/8/8/8/R5K1 w - - 0 1',
+    moves: ['Re1', 'Rd6', 'Rxe8+']
+  },
+  {
+    pattern: 'x-ray',
+    detected: true,
+    name: 'back rank: the e1 rook defends e8 through the black queen',
+    fen: '3Rr1k1/5ppp/4q3/8/8/8/5PPP/4R1K1 w - - 0 1',
+    moves: ['Rxe8+', 'Qxe8', 'Rxe8#']
+  },
+  {
+    pattern: 'x-ray',
+    detected: true,
+    name: 'the d1 rook backs up the knight through the black rook',
+    fen: '6k1/8/8/3n4/3r1N2/8/8/3R2K1 w - - 0 1',
+    moves: ['Nxd5', 'Rxd5', 'Rxd5']
+  },
+  {
+    pattern: 'x-ray',
+    detected: false,
+    name: 'near miss: same exchange, but the queen recaptures from off the file',
+    fen: '3Rr1k1/5ppp/8/8/q7/8/5PPP/4R1K1 w - - 0 1',
+    moves: ['Rdxe8+', 'Qxe8', 'Rxe8#']
+  },
+  {
+    pattern: 'deflection',
+    detected: true,
+    name: 'the rook is drawn off the a-file and the knight falls',
+    fen: 'r5k1/5ppp/8/n7/8/8/3Q1PPP/1R4K1 w - - 0 1',
+    moves: ['Rb8+', 'Rxb8', 'Qxa5']
+  },
+  {
+    pattern: 'deflection',
+    detected: false,
+    name: 'near miss: the a6 pawn already cut the rook off from the knight',
+    fen: 'r5k1/5ppp/p7/n7/8/8/3Q1PPP/1R4K1 w - - 0 1',
+    moves: ['Rb8+', 'Rxb8', 'Qxa5']
+  },
+  {
+    pattern: 'decoy',
+    detected: true,
+    name: 'Réti-Tartakower: 9. Qd8+ draws the king onto the bishop\'s diagonal',
+    fen: RETI_TARTAKOWER,
+    moves: ['Qd8+', 'Kxd8', 'Bg5+', 'Kc7', 'Bd8#']
+  },
+  {
+    pattern: 'decoy',
+    detected: true,
+    name: 'the king is drawn into a knight fork',
+    fen: '3q2k1/8/8/6N1/8/8/8/6KR w - - 0 1',
+    moves: ['Rh8+', 'Kxh8', 'Nf7+', 'Kg7', 'Nxd8']
+  },
+  {
+    pattern: 'decoy',
+    detected: false,
+    name: 'near miss: the king takes, but nothing follows up on h8',
+    fen: '3q2k1/8/4p3/6N1/8/8/8/6KR w - - 0 1',
+    moves: ['Rh8+', 'Kxh8', 'Nxe6']
+  },
+  {
+    pattern: 'overload',
+    detected: true,
+    name: 'the d8 rook guards both the knight and the bishop',
+    fen: '1b1r2k1/5ppp/8/3n4/8/2N5/5PPP/1R4K1 w - - 0 1',
+    moves: ['Nxd5', 'Rxd5', 'Rxb8+']
+  },
+  {
+    pattern: 'overload',
+    detected: false,
+    name: 'near miss: the c8 bishop blocks the rook from b8, so it only had one job',
+    fen: '1bbr2k1/5ppp/8/3n4/8/2N5/5PPP/1R4K1 w - - 0 1',
+    moves: ['Nxd5', 'Rxd5', 'Rxb8']
+  },
+  {
+    pattern: 'interference',
+    detected: true,
+    name: 'the knight cuts the rook off from the bishop',
+    fen: '7k/6pp/8/r3b3/8/1N6/5PPP/4R1K1 w - - 0 1',
+    moves: ['Nc5', 'h6', 'Rxe5']
+  },
+  {
+    pattern: 'interference',
+    detected: false,
+    name: 'near miss: the knight lands off the rook\'s line',
+    fen: '7k/6pp/8/r3b3/8/1N6/5PPP/4R1K1 w - - 0 1',
+    moves: ['Nd4', 'h6', 'Rxe5']
+  },
+  {
+    pattern: 'clearance',
+    detected: true,
+    name: 'the knight leaves the d-file for the rook',
+    fen: '7k/6pp/8/8/3N4/8/8/3R2K1 w - - 0 1',
+    moves: ['Nf5', 'h6', 'Rd7']
+  },
+  {
+    pattern: 'clearance',
+    detected: false,
+    name: 'near miss: the knight was never on the rook\'s file',
+    fen: '7k/6pp/8/8/2N5/8/8/3R2K1 w - - 0 1',
+    moves: ['Ne5', 'h6', 'Rd7']
+  },
+  {
+    pattern: 'trapped-piece',
+    detected: true,
+    name: 'poisoned a-pawn: ...b6 shuts the bishop in on a7',
+    fen: '2r3k1/Bpp2ppp/8/8/8/8/PP3PPP/6K1 b - - 0 1',
+    moves: ['b6', 'Kf1', 'Ra8', 'Ke2', 'Rxa7']
+  },
+  {
+    pattern: 'trapped-piece',
+    detected: true,
+    name: 'the king walks up to a bishop boxed in by b3',
+    fen: '7k/7p/8/8/8/1P6/b7/2K5 w - - 0 1',
+    moves: ['Kb2', 'h5', 'Kxa2']
+  },
+  {
+    pattern: 'trapped-piece',
+    detected: false,
+    name: 'near miss: without the b3 pawn the bishop could have run',
+    fen: '7k/7p/8/8/8/8/b7/2K5 w - - 0 1',
+    moves: ['Kb2', 'h5', 'Kxa2']
+  },
+  {
+    pattern: 'back-rank-mate',
+    detected: true,
+    name: 'queen sacrifice on c8, then the rook mates on the back rank',
+    fen: '1rr3k1/5ppp/8/8/8/8/2Q2PPP/2R3K1 w - - 0 1',
+    moves: ['Qxc8+', 'Rxc8', 'Rxc8#']
+  },
+  {
+    pattern: 'back-rank-mate',
+    detected: true,
+    name: 'rook mate in front of unmoved pawns',
+    fen: '6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1',
+    moves: ['Rd8#']
+  },
+  {
+    pattern: 'back-rank-mate',
+    detected: false,
+    name: 'near miss: h6 gives the king a square',
+    fen: '6k1/5pp1/7p/8/8/8/5PPP/3R2K1 w - - 0 1',
+    moves: ['Rd8+', 'Kh7']
+  },
+  {
+    pattern: 'smothered-mate',
+    detected: true,
+    name: 'Philidor\'s legacy: Qg8+ Rxg8 Nf7#',
+    fen: 'r6k/6pp/7N/8/2Q5/8/6PP/6K1 w - - 0 1',
+    moves: ['Qg8+', 'Rxg8', 'Nf7#']
+  },
+  {
+    pattern: 'smothered-mate',
+    detected: true,
+    name: 'knight mate against a king hemmed in by its rook and pawns',
+    fen: '6rk/6pp/8/6N1/8/8/8/6K1 w - - 0 1',
+    moves: ['Nf7#']
+  },
+  {
+    pattern: 'smothered-mate',
+    detected: false,
+    name: 'near miss: knight mate, but g7 is empty and covered by the bishop',
+    fen: '6rk/7p/7B/6N1/8/8/8/7K w - - 0 1',
+    moves: ['Nf7#']
+  },
+  {
+    pattern: 'zwischenzug',
+    detected: true,
+    name: 'a check on f7 before taking back on d7',
+    fen: '3r2k1/3b1ppp/8/2N5/8/1Q6/5PPP/3R2K1 w - - 0 1',
+    moves: ['Rxd7', 'Rxd7', 'Qxf7+', 'Kh8', 'Nxd7']
+  },
+  {
+    pattern: 'zwischenzug',
+    detected: false,
+    name: 'near miss: the knight takes back straight away',
+    fen: '3r2k1/3b1ppp/8/2N5/8/1Q6/5PPP/3R2K1 w - - 0 1',
+    moves: ['Rxd7', 'Rxd7', 'Nxd7']
+  },
+  {
+    pattern: 'hanging-piece',
+    detected: true,
+    name: 'an undefended knight on the open file',
+    fen: '4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1',
+    moves: ['Rxd5', 'Ke7']
+  },
+  {
+    pattern: 'hanging-piece',
+    detected: false,
+    name: 'near miss: the c6 pawn guards the knight',
+    fen: '4k3/8/2p5/3n4/8/8/8/3RK3 w - - 0 1',
+    moves: ['Rxd5', 'cxd5']
+  },
+];
@@ -0,0 +1,26 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { EngineMove } from './engineTypes';
+import { detectMotifs } from './motifs';
+import { motifFixtures } from './motifs.fixtures';
+
+const playLine = (fen: string, moves: string[]): EngineMove[] => {
+  const chess = new Chess(fen);
+  return moves.map(san => chess.move(san));
+};
+
+describe('detectMotifs', () => {
+  it.each(motifFixtures)('$pattern: $name', ({ pattern, detected, fen, moves }) => {
+    const found = detectMotifs(playLine(fen, moves)).map(evidence => evidence.pattern);
+    expect(found.includes(pattern)).toBe(detected);
+  });
+
+  it('has a positive and a negative line for every detector', () => {
+    const patterns = new Set(motifFixtures.map(fixture => fixture.pattern));
+    for (const pattern of patterns) {
+      const outcomes = motifFixtures.filter(fixture => fixture.pattern === pattern).map(fixture => fixture.detected);
+      expect(outcomes).toContain(true);
+      expect(outcomes).toContain(false);
+    }
+  });
+});
@@ -0,0 +1,376 @@
+import { Chess, Color, Square } from 'chess.js';
+import { kingNeighbours, squareCoords, squaresBetween } from './boardGeometry';
+import { EngineMove } from './engineTypes';
+import { exchangeValues, staticExchange } from './see';
+import { TacticalPattern } from './tacticalPatterns';
+
+// What a detector sees: the puzzle's first move followed by the engine's continuation
+export interface MotifContext {
+  // The solver plays the even plies, the opponent the odd ones
+  line: EngineMove[];
+  // positions[i] is the position before line[i]; the last entry is the final position
+  positions: Chess[];
+  solver: Color;
+}
+
+export interface MotifEvidence {
+  pattern: TacticalPattern;
+  // The ply in the line where the motif happens
+  ply: number;
+  // The squares involved, for drawing, e.g. both checkers of a double check
+  squares: string[];
+}
+
+export interface MotifDetector {
+  pattern: TacticalPattern;
+  detect: (context: MotifContext) => Omit<MotifEvidence, 'pattern'> | null;
+}
+
+const pieceValues: { [key: string]: number } = {
+  p: 1, n: 3, b: 3, r: 5, q: 9, k: 100
+};
+
+const SLIDERS = ['b', 'r', 'q'];
+
+const solverPlies = (context: MotifContext, from = 0): number[] =>
+  context.line.map((_, ply) => ply).filter(ply => ply >= from && ply % 2 === 0);
+
+const opponentOf = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+const kingSquare = (chess: Chess, color: Color): Square | undefined =>
+  chess.board().flat().find(piece => piece?.type === 'k' && piece.color === color)?.square;
+
+const checkers = (chess: Chess, color: Color): Square[] => {
+  const king = kingSquare(chess, opponentOf(color));
+  return king ? chess.attackers(king, color) : [];
+};
+
+// Attacked, and either undefended or attacked by something cheaper
+export const isInBadSpot = (chess: Chess, square: Square): boolean => {
+  const piece = chess.get(square);
+  if (!piece) return false;
+  const attackers = chess.attackers(square, opponentOf(piece.color));
+  if (attackers.length === 0) return false;
+  return chess.attackers(square, piece.color).length === 0 ||
+    attackers.some(attacker => pieceValues[chess.get(attacker)!.type] < pieceValues[piece.type]);
+};
+
+// In a bad spot with nowhere better to go
+const isTrapped = (chess: Chess, square: Square): boolean => {
+  const piece = chess.get(square);
+  if (!piece || piece.type === 'p' || piece.type === 'k' || chess.inCheck()) return false;
+  if (!isInBadSpot(chess, square)) return false;
+
+  return chess.moves({ square, verbose: true }).every(escape => {
+    if (escape.captured && pieceValues[escape.captured] >= pieceValues[piece.type]) return false;
+    const next = new Chess(chess.fen());
+    next.move(escape);
+    return isInBadSpot(next, escape.to);
+  });
+};
+
+const doubleCheck: MotifDetector = {
+  pattern: 'double-check',
+  detect: (context) => {
+    for (const ply of solverPlies(context)) {
+      const checking = checkers(context.positions[ply + 1], context.solver);
+      if (checking.length >= 2) return { ply, squares: checking };
+    }
+    return null;
+  }
+};
+
+// A check or capture by a piece whose line the previous move opened
+const discoveredAttack: MotifDetector = {
+  pattern: 'discovered-attack',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    for (const ply of solverPlies(context)) {
+      const move = line[ply];
+      const discovered = checkers(positions[ply + 1], solver).filter(square => square !== move.to);
+      if (discovered.length > 0) return { ply, squares: [move.from, ...discovered] };
+    }
+
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      const opened = line[ply - 2];
+      if (!move.captured || line[ply - 1].to === move.to) continue;
+      if (squaresBetween(move.from, move.to).includes(opened.from) &&
+          move.to !== opened.to && move.from !== opened.to &&
+          !opened.flags.includes('k') && !opened.flags.includes('q')) {
+        return { ply: ply - 2, squares: [opened.from, move.from, move.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// A valuable piece moves out of the line and the piece behind it is taken
+const skewer: MotifDetector = {
+  pattern: 'skewer',
+  detect: (context) => {
+    const { line, positions } = context;
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      const front = line[ply - 1];
+      if (!move.captured || !SLIDERS.includes(move.piece) || positions[ply + 1].isCheckmate()) continue;
+      if (front.to === move.to || !squaresBetween(move.from, move.to).includes(front.from)) continue;
+      if (pieceValues[front.piece] > pieceValues[move.captured]) {
+        return { ply: ply - 2, squares: [move.from, front.from, move.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// A capture on a square the opponent just recaptured on, by a piece standing behind the
+// first capturer
+const xRay: MotifDetector = {
+  pattern: 'x-ray',
+  detect: (context) => {
+    const { line } = context;
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      const recapture = line[ply - 1];
+      if (!move.captured || recapture.to !== move.to || recapture.piece === 'k') continue;
+      if (line[ply - 2].to !== recapture.to) continue;
+      if (squaresBetween(move.from, move.to).includes(recapture.from)) {
+        return { ply, squares: [move.from, move.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// A defender is lured away by a capture or check and the square it guarded falls
+const deflection: MotifDetector = {
+  pattern: 'deflection',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    const opponent = opponentOf(solver);
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      if (!move.captured && !move.promotion) continue;
+      if (move.captured && pieceValues[move.captured] > pieceValues[move.piece]) continue;
+
+      const defender = line[ply - 1];
+      const lure = line[ply - 2];
+      const target = move.to;
+      if (lure.captured && pieceValues[lure.captured] >= pieceValues[defender.piece]) continue;
+      if (target === defender.to || target === lure.to) continue;
+      if (defender.to !== lure.to && !positions[ply - 1].inCheck()) continue;
+
+      const guarded = positions[ply - 1].attackers(target, opponent).includes(defender.from);
+      const stillGuards = positions[ply].attackers(target, opponent).includes(defender.to);
+      if (guarded && !stillGuards) return { ply: ply - 2, squares: [lure.to, defender.from, target] };
+    }
+    return null;
+  }
+};
+
+// A heavy piece or the king is drawn onto a square by a sacrifice, then hit there
+const decoy: MotifDetector = {
+  pattern: 'decoy',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    for (const ply of solverPlies(context)) {
+      const bait = line[ply];
+      const taker = line[ply + 1];
+      const follow = line[ply + 2];
+      if (!taker || !follow || taker.to !== bait.to || !['k', 'q', 'r'].includes(taker.piece)) continue;
+      if (!positions[ply + 3].attackers(bait.to, solver).includes(follow.to)) continue;
+      if (taker.piece === 'k' || line[ply + 4]?.to === bait.to) {
+        return { ply, squares: [bait.to, follow.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// One defender guards two pieces; drawing it onto one of them leaves the other to be taken
+const overload: MotifDetector = {
+  pattern: 'overload',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    const opponent = opponentOf(solver);
+    for (const ply of solverPlies(context)) {
+      const capture = line[ply];
+      const recapture = line[ply + 1];
+      const second = line[ply + 2];
+      if (!capture.captured || !recapture || !second?.captured) continue;
+      if (recapture.to !== capture.to || second.to === capture.to) continue;
+
+      const defends = (square: Square) => positions[ply].attackers(square, opponent).includes(recapture.from);
+      if (defends(capture.to) && defends(second.to) && second.to !== recapture.from) {
+        return { ply, squares: [recapture.from, capture.to, second.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// A piece steps between an enemy defender and what it defends, which is then taken
+const interference: MotifDetector = {
+  pattern: 'interference',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    const opponent = opponentOf(solver);
+    for (const ply of solverPlies(context)) {
+      const blocker = line[ply];
+      const capture = line[ply + 2];
+      if (!capture?.captured || capture.to === blocker.to) continue;
+
+      const defenders = positions[ply].attackers(capture.to, opponent).filter(square =>
+        SLIDERS.includes(positions[ply].get(square)!.type) &&
+        squaresBetween(square, capture.to).includes(blocker.to) &&
+        line[ply + 1].from !== square);
+      const cut = defenders.find(square => !positions[ply + 2].attackers(capture.to, opponent).includes(square));
+      if (cut) return { ply, squares: [blocker.to, cut, capture.to] };
+    }
+    return null;
+  }
+};
+
+// A quiet move vacates a square or line so another piece can use it
+const clearance: MotifDetector = {
+  pattern: 'clearance',
+  detect: (context) => {
+    const { line, positions } = context;
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      const cleared = line[ply - 2];
+      if (move.captured || !SLIDERS.includes(move.piece)) continue;
+      if (cleared.captured || cleared.promotion || cleared.to === move.from || cleared.to === move.to) continue;
+      if (positions[ply].inCheck() || (positions[ply + 1].inCheck() && line[ply - 1].piece === 'k')) continue;
+      if (cleared.from === move.to || squaresBetween(move.from, move.to).includes(cleared.from)) {
+        return { ply: ply - 2, squares: [cleared.from, move.from, move.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// A piece is captured after it had no safe square left to go to
+const trappedPiece: MotifDetector = {
+  pattern: 'trapped-piece',
+  detect: (context) => {
+    const { line, positions } = context;
+    for (const ply of solverPlies(context, 2)) {
+      const move = line[ply];
+      if (!move.captured || move.captured === 'p') continue;
+      // Follow the piece back if it moved just before being taken
+      const square = line[ply - 1].to === move.to ? line[ply - 1].from : move.to;
+      if (isTrapped(positions[ply - 1], square)) return { ply, squares: [square] };
+    }
+    return null;
+  }
+};
+
+const finalMate = (context: MotifContext) => {
+  const final = context.positions[context.positions.length - 1];
+  if (!final.isCheckmate() || final.turn() === context.solver) return null;
+  const king = kingSquare(final, final.turn());
+  return king ? { final, king } : null;
+};
+
+// Mate on the back rank, with the king walled in by its own pieces
+const backRankMate: MotifDetector = {
+  pattern: 'back-rank-mate',
+  detect: (context) => {
+    const mate = finalMate(context);
+    if (!mate) return null;
+    const { final, king } = mate;
+    const [, rank] = squareCoords(king);
+    const backRank = final.turn() === 'w' ? 0 : 7;
+    if (rank !== backRank) return null;
+
+    const inFront = kingNeighbours(king).filter(square => squareCoords(square)[1] !== backRank);
+    const walledIn = inFront.every(square =>
+      final.get(square)?.color === final.turn() && final.attackers(square, context.solver).length === 0);
+    const checking = checkers(final, context.solver);
+    if (!walledIn || !checking.some(square => squareCoords(square)[1] === backRank)) return null;
+    return { ply: context.line.length - 1, squares: [king, ...checking] };
+  }
+};
+
+// Knight mate against a king boxed in on every side by its own pieces
+const smotheredMate: MotifDetector = {
+  pattern: 'smothered-mate',
+  detect: (context) => {
+    const mate = finalMate(context);
+    if (!mate) return null;
+    const { final, king } = mate;
+    const knight = checkers(final, context.solver).find(square => final.get(square)?.type === 'n');
+    if (!knight) return null;
+    const smothered = kingNeighbours(king).every(square => final.get(square)?.color === final.turn());
+    return smothered ? { ply: context.line.length - 1, squares: [king, knight] } : null;
+  }
+};
+
+// Instead of recapturing at once, an in-between move first, and only then the recapture
+const zwischenzug: MotifDetector = {
+  pattern: 'zwischenzug',
+  detect: (context) => {
+    const { line, positions, solver } = context;
+    for (let ply = 1; ply + 2 < line.length; ply += 2) {
+      const capture = line[ply];
+      const inBetween = line[ply + 1];
+      const recapture = line[ply + 3];
+      if (!capture.captured || inBetween.to === capture.to) continue;
+      if (positions[ply + 1].attackers(capture.to, solver).length === 0) continue;
+      if (recapture?.to === capture.to && recapture.captured) {
+        return { ply: ply + 1, squares: [inBetween.from, inBetween.to, capture.to] };
+      }
+    }
+    return null;
+  }
+};
+
+// The first move takes a piece for nothing: no recapture wins anything back
+const hangingPiece: MotifDetector = {
+  pattern: 'hanging-piece',
+  detect: ({ line, positions }) => {
+    const move = line[0];
+    if (!move.captured) return null;
+    return staticExchange(positions[0], move) >= exchangeValues[move.captured]
+      ? { ply: 0, squares: [move.to] }
+      : null;
+  }
+};
+
+const registry: MotifDetector[] = [
+  doubleCheck,
+  discoveredAttack,
+  skewer,
+  xRay,
+  deflection,
+  decoy,
+  overload,
+  interference,
+  clearance,
+  trappedPiece,
+  backRankMate,
+  smotheredMate,
+  zwischenzug,
+  hangingPiece
+];
+
+// Adds a detector; it runs on every line analyzed after this
+export const registerMotif = (detector: MotifDetector): void => {
+  registry.push(detector);
+};
+
+// Runs every registered detector over a line starting with the solver's move
+export const detectMotifs = (line: EngineMove[]): MotifEvidence[] => {
+  if (line.length === 0) return [];
+  const positions = [...line.map(move => new Chess(move.before)), new Chess(line[line.length - 1].after)];
+  const context: MotifContext = { line, positions, solver: line[0].color };
+
+  const found: MotifEvidence[] = [];
+  for (const detector of registry) {
+    if (found.some(evidence => evidence.pattern === detector.pattern)) continue;
+    const evidence = detector.detect(context);
+    if (evidence) found.push({ pattern: detector.pattern, ...evidence });
+  }
+  return found;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { parsePgnGames, splitPgnGames, stripAnnotations } from './pgnImport';
+
+const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+describe('stripAnnotations', () => {
+  it('removes comments, variations and NAGs from movetext', () => {
+    const stripped = stripAnnotations('1. e4 {best by test} e5 $1 (1... c5 (1... e6) 2. Nf3) 2. Nf3 ; main line\nNc6 *');
+    expect(squash(stripped)).toBe('1. e4 e5 2. Nf3 Nc6 *');
+  });
+
+  it('drops %escape lines and copies headers verbatim', () => {
+    const stripped = stripAnnotations('[Event "A {curly} (paren) ; game $1"]\n%exported by a tool\n1. d4 *');
+    expect(squash(stripped)).toBe('[Event "A {curly} (paren) ; game $1"] 1. d4 *');
+  });
+});
+
+describe('splitPgnGames', () => {
+  it('splits at a header that follows movetext', () => {
+    const games = splitPgnGames('[White "a"]\n\n1. e4 e5 1-0\n\n[White "b"]\n\n1. d4 d5 0-1\n');
+    expect(games).toEqual(['[White "a"]\n\n1. e4 e5 1-0', '[White "b"]\n\n1. d4 d5 0-1']);
+  });
+
+  it('splits games without headers at their result', () => {
+    expect(splitPgnGames('1. e4 e5 1-0 1. d4 d5 *')).toEqual(['1. e4 e5 1-0', '1. d4 d5 *']);
+  });
+
+  it('keeps comments and variations and ignores results inside them', () => {
+    const pgn = '1. e4 {1-0 was agreed later} e5 (1... c5 2. Nf3 0-1) 2. Nf3 *';
+    expect(splitPgnGames(pgn)).toEqual([pgn]);
+  });
+
+  it('keeps a comment that spans lines in one game', () => {
+    const pgn = '1. e4 {a long\n\n[not a header]\nnote} e5 *';
+    expect(splitPgnGames(pgn)).toEqual([pgn]);
+  });
+});
+
+describe('parsePgnGames', () => {
+  it('reads headers and keeps the annotated PGN', () => {
+    const pgn = '[White "Alice"]\n[Black "Bob"]\n[WhiteElo "1620"]\n[Result "1-0"]\n[Date "2024.03.??"]\n'
+      + '[TimeControl "300+0"]\n\n1. e4 {nice} e5 2. Qh5 Nc6 3. Bc4 Nf6 4. Qxf7# 1-0';
+    const { games, skipped } = parsePgnGames(pgn, 'bob');
+
+    expect(skipped).toBe(0);
+    expect(games).toHaveLength(1);
+    expect(games[0]).toMatchObject({
+      pgn,
+      platform: 'pgn',
+      white: { name: 'Alice', rating: 1620 },
+      black: { name: 'Bob', rating: null },
+      timeClass: 'blitz',
+      result: '1-0',
+      playedAt: Date.UTC(2024, 2, 1),
+      userColor: 'black'
+    });
+  });
+
+  it('counts games it cannot read as skipped', () => {
+    const { games, skipped } = parsePgnGames('1. e4 e5 *\n\n1. e4 e4 *');
+    expect(games).toHaveLength(1);
+    expect(skipped).toBe(1);
+  });
+});
@@ -0,0 +1,192 @@
+import { Chess } from 'chess.js';
+import {
+  SourceGame,
+  colorOf,
+  parsePgnResult,
+  pgnHeader,
+  timeClassFromTimeControl,
+} from './sourceGame';
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+export interface PgnImportResult {
+  games: SourceGame[];
+  skipped: number;
+}
+
+// Removes {comments}, ;line comments, (variations), $NAGs and %escape lines from movetext.
+// Header lines are copied verbatim so quoted tag values may contain any character.
+export const stripAnnotations = (text: string): string => {
+  let output = '';
+  let variationDepth = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const atLineStart = i === 0 || text[i - 1] === '\n';
+
+    if (atLineStart && char === '%') {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (atLineStart && char === '[' && variationDepth === 0) {
+      while (i < text.length && text[i] !== '\n') output += text[i++];
+      continue;
+    }
+
+    if (char === '{') {
+      const close = text.indexOf('}', i);
+      i = close === -1 ? text.length : close + 1;
+      output += ' ';
+      continue;
+    }
+
+    if (char === ';') {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (char === '(') {
+      variationDepth++;
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      variationDepth = Math.max(0, variationDepth - 1);
+      i++;
+      output += ' ';
+      continue;
+    }
+
+    // Numeric annotation glyphs ($1, $14, ...)
+    if (char === '$') {
+      i++;
+      while (/\d/.test(text[i] ?? '')) i++;
+      output += ' ';
+      continue;
+    }
+
+    if (variationDepth === 0) output += char;
+    i++;
+  }
+
+  return output;
+};
+
+// Splits an export containing any number of games. A new game starts at a header
+// line that follows movetext, or after a result token when headers are missing.
+// Games are returned as written, comments and variations included; only %escape
+// lines are dropped.
+export const splitPgnGames = (text: string): string[] => {
+  const games: string[] = [];
+  let headers: string[] = [];
+  let movetext = '';
+  let inComment = false;
+  let variationDepth = 0;
+
+  const flush = () => {
+    const moves = movetext.trim();
+    if (stripAnnotations(moves).trim()) {
+      games.push([...headers, '', moves].join('\n').trim());
+    }
+    headers = [];
+    movetext = '';
+  };
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!inComment && (!line || line.startsWith('%'))) continue;
+
+    if (!inComment && variationDepth === 0 && line.startsWith('[')) {
+      if (stripAnnotations(movetext).trim()) flush();
+      headers.push(line);
+      continue;
+    }
+
+    // Walk the line tracking comments and variations so only result tokens in the
+    // main line end a game
+    let token = '';
+    for (let i = 0; i <= line.length; i++) {
+      const char = line[i] ?? ' ';
+      if (inComment) {
+        if (char === '}') inComment = false;
+      } else if (/[\s{}();]/.test(char)) {
+        if (variationDepth === 0 && RESULT_TOKENS.includes(token)) flush();
+        token = '';
+        if (char === '{') inComment = true;
+        if (char === '(') variationDepth++;
+        if (char === ')') variationDepth = Math.max(0, variationDepth - 1);
+        if (char === ';') {
+          movetext += line.slice(i);
+          break;
+        }
+      } else {
+        token += char;
+      }
+      if (i < line.length) movetext += char;
+    }
+    movetext += '\n';
+  }
+
+  flush();
+  return games;
+};
+
+const parseRating = (value: string | null): number | null => {
+  const rating = value ? parseInt(value) : NaN;
+  return isNaN(rating) ? null : rating;
+};
+
+// PGN dates are "YYYY.MM.DD" with "??" for unknown parts
+const parsePgnDate = (value: string | null): number | null => {
+  const match = value?.match(/^(\d{4})\.(\d{2}|\?\?)\.(\d{2}|\?\?)$/);
+  if (!match) return null;
+
+  const month = match[2] === '??' ? 1 : parseInt(match[2]);
+  const day = match[3] === '??' ? 1 : parseInt(match[3]);
+  return Date.UTC(parseInt(match[1]), month - 1, day);
+};
+
+export const parsePgnGames = (text: string, username = ''): PgnImportResult => {
+  const games: SourceGame[] = [];
+  let skipped = 0;
+
+  splitPgnGames(text).forEach((pgn, index) => {
+    try {
+      // The stored game keeps its comments; the parser gets a clean copy
+      const chess = new Chess();
+      chess.loadPgn(stripAnnotations(pgn));
+
+      if (chess.history().length === 0) {
+        skipped++;
+        return;
+      }
+
+      const site = pgnHeader(pgn, 'Site');
+      const timeControl = pgnHeader(pgn, 'TimeControl');
+      const white = { name: pgnHeader(pgn, 'White') ?? '?', rating: parseRating(pgnHeader(pgn, 'WhiteElo')) };
+      const black = { name: pgnHeader(pgn, 'Black') ?? '?', rating: parseRating(pgnHeader(pgn, 'BlackElo')) };
+
+      games.push({
+        pgn,
+        url: site && /^https?:\/\//.test(site) ? site : '',
+        platform: 'pgn',
+        white,
+        black,
+        rated: false,
+        timeControl,
+        timeClass: timeClassFromTimeControl(timeControl),
+        result: parsePgnResult(pgnHeader(pgn, 'Result')),
+        playedAt: parsePgnDate(pgnHeader(pgn, 'UTCDate') ?? pgnHeader(pgn, 'Date')),
+        userColor: colorOf({ white, black }, username)
+      });
+    } catch (error) {
+      console.error(`Skipping unreadable PGN game #${index + 1}:`, error);
+      skipped++;
+    }
+  });
+
+  return { games, skipped };
+};
@@ -0,0 +1,115 @@
+import { withStore } from './db';
+import { DEFAULT_RATING, Rating, updateRating } from './glicko2';
+import { ReviewGrade } from './srs';
+import { TacticalInfo } from './tacticalPatterns';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface UserProfile {
+  id: string;
+  rating: Rating;
+  puzzlesPlayed: number;
+  updatedAt: number;
+}
+
+interface TacticRating {
+  key: string;
+  rating: Rating;
+  attempts: number;
+}
+
+export interface RatedAttempt {
+  user: Rating;
+  tactic: Rating;
+  userChange: number;
+}
+
+// Everything is stored on this device for a single local player
+export const LOCAL_PROFILE_ID = 'local';
+
+// Seeds start uncertain so a handful of attempts can correct a bad guess
+const SEED_DEVIATION = 250;
+
+// How much of a win each outcome is for the solver
+const gradeScores: Record<ReviewGrade, number> = {
+  good: 1,
+  hard: 0.5,
+  failed: 0,
+};
+
+// First guess at a puzzle's rating from what the engine found: longer lines, quiet first
+// moves and sacrifices are harder to see than a single capture
+export const seedTacticRating = (
+  info: TacticalInfo,
+  firstMove: { san: string; captured?: string },
+  solutionLength: number
+): Rating => {
+  const isCapture = !!firstMove.captured;
+  const isCheck = /[+#]/.test(firstMove.san);
+  const playerMoves = Math.ceil(solutionLength / 2);
+
+  let rating = 1100;
+  rating += 150 * Math.min(playerMoves - 1, 2);
+  if (!isCapture && !isCheck) rating += 250;
+  else if (!isCapture) rating += 100;
+  if (info.patterns.includes('sacrifice')) rating += 200;
+  if (info.patterns.includes('pin') || info.patterns.includes('skewer')) rating += 100;
+  if (info.patterns.includes('discovered-attack')) rating += 100;
+  if (info.patterns.includes('fork')) rating += 50;
+  if (info.patterns.includes('underpromotion')) rating += 150;
+  if (info.leadsToMate && playerMoves > 1) rating += 100;
+  // A huge swing usually means something was simply left hanging
+  if (info.evalSwing > 800 && isCapture) rating -= 150;
+
+  return { ...DEFAULT_RATING, rating, deviation: SEED_DEVIATION };
+};
+
+export const difficultyForRating = (rating: number): Difficulty => {
+  if (rating < 1400) return 'easy';
+  if (rating < 1700) return 'medium';
+  return 'hard';
+};
+
+// Sets saved before puzzles were rated only carry a difficulty
+const ratingForDifficulty: Record<Difficulty, number> = {
+  easy: 1200,
+  medium: 1550,
+  hard: 1850,
+};
+
+export const initialTacticRating = (tactic: { rating?: Rating; difficulty: Difficulty }): Rating =>
+  tactic.rating ?? { ...DEFAULT_RATING, rating: ratingForDifficulty[tactic.difficulty], deviation: SEED_DEVIATION };
+
+export const getUserProfile = async (): Promise<UserProfile> => {
+  const profile = await withStore<UserProfile | undefined>('profiles', 'readonly', store =>
+    store.get(LOCAL_PROFILE_ID)
+  );
+  return profile ?? { id: LOCAL_PROFILE_ID, rating: DEFAULT_RATING, puzzlesPlayed: 0, updatedAt: 0 };
+};
+
+export const getTacticRatings = async (): Promise<Map<string, Rating>> => {
+  const ratings = await withStore<TacticRating[]>('tacticRatings', 'readonly', store => store.getAll());
+  return new Map(ratings.map(entry => [entry.key, entry.rating]));
+};
+
+// The solver and the puzzle play one game against each other
+export const rateAttempt = async (key: string, seed: Rating, grade: ReviewGrade): Promise<RatedAttempt> => {
+  const [profile, stored] = await Promise.all([
+    getUserProfile(),
+    withStore<TacticRating | undefined>('tacticRatings', 'readonly', store => store.get(key))
+  ]);
+  const tacticBefore = stored?.rating ?? seed;
+  const score = gradeScores[grade];
+
+  const user = updateRating(profile.rating, tacticBefore, score);
+  const tactic = updateRating(tacticBefore, profile.rating, 1 - score);
+
+  await withStore('profiles', 'readwrite', store =>
+    store.put({ ...profile, rating: user, puzzlesPlayed: profile.puzzlesPlayed + 1, updatedAt: Date.now() })
+  );
+  await withStore('tacticRatings', 'readwrite', store =>
+    store.put({ key, rating: tactic, attempts: (stored?.attempts ?? 0) + 1 })
+  );
+
+  return { user, tactic, userChange: user.rating - profile.rating.rating };
+};
@@ -0,0 +1,63 @@
+import { withStore } from './db';
+import { Platform } from './sourceGame';
+import { Tactic, TacticMode } from './tacticsGenerator';
+
+export interface PuzzleSet {
+  id: string;
+  name: string;
+  username: string;
+  platform: Platform;
+  mode: TacticMode;
+  createdAt: number;
+  gameCount: number;
+  // Each tactic carries its source game, so a set is self-contained
+  tactics: Tactic[];
+}
+
+export const PUZZLE_SETS_QUERY_KEY = ['puzzleSets'];
+
+export type NewPuzzleSet = Omit<PuzzleSet, 'id' | 'name' | 'createdAt'> & { name?: string };
+
+const defaultName = (set: NewPuzzleSet, createdAt: number): string => {
+  const who = set.username || 'PGN import';
+  const date = new Date(createdAt).toLocaleDateString();
+  return `${who} · ${set.platform} · ${date}`;
+};
+
+export const savePuzzleSet = async (set: NewPuzzleSet): Promise<PuzzleSet> => {
+  const createdAt = Date.now();
+  const saved: PuzzleSet = {
+    ...set,
+    id: crypto.randomUUID(),
+    name: set.name?.trim() || defaultName(set, createdAt),
+    createdAt
+  };
+
+  await withStore('puzzleSets', 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+// Newest first
+export const listPuzzleSets = async (): Promise<PuzzleSet[]> => {
+  const sets = await withStore<PuzzleSet[]>('puzzleSets', 'readonly', store => store.getAll());
+  return sets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getPuzzleSet = (id: string): Promise<PuzzleSet | undefined> =>
+  withStore<PuzzleSet | undefined>('puzzleSets', 'readonly', store => store.get(id));
+
+export const renamePuzzleSet = async (id: string, name: string): Promise<void> => {
+  await withStore('puzzleSets', 'readwrite', store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put({ ...request.result, name: name.trim() || request.result.name });
+      }
+    };
+    return request;
+  });
+};
+
+export const deletePuzzleSet = async (id: string): Promise<void> => {
+  await withStore('puzzleSets', 'readwrite', store => store.delete(id));
+};
@@ -1,5 +1,6 @@
 import { Chess } from 'chess.js';
 import { evaluatePosition } from './evaluation';
+import { staticExchange } from './see';
 
 const pieceValues: { [key: string]: number } = {
   p: 100, n: 320, b: 330, r: 500, q: 900, k: 20000
@@ -9,9 +10,10 @@ const orderMoves = (chess: Chess, moves: any[]): any[] => {
   return moves.map(move => {
     let score = 0;
     
-    // Prioritize captures by MVV-LVA (Most Valuable Victim - Least Valuable Attacker)
+    // Captures that win material first, by how much they win; losing ones go to the back
     if (move.captured) {
-      score += pieceValues[move.captured] * 10 - pieceValues[move.piece];
+      const exchange = staticExchange(chess, move);
+      score += exchange >= 0 ? 10000 + exchange : exchange;
     }
     
     // Prioritize checks
@@ -112,7 +114,9 @@ export const quiescenceSearch = (chess: Chess, alpha: number, beta: number): num
     alpha = standPat;
   }
   
-  const captures = chess.moves({ verbose: true }).filter(m => m.captured);
+  // Captures that lose material by static exchange are pruned; they rarely raise alpha
+  const captures = chess.moves({ verbose: true })
+    .filter(m => m.captured && staticExchange(chess, m) >= 0);
   const orderedCaptures = orderMoves(chess, captures);
   
   for (const move of orderedCaptures) {
@@ -0,0 +1,57 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { exchangeOn, staticExchange } from './see';
+
+describe('staticExchange', () => {
+  it('wins an undefended piece outright', () => {
+    const chess = new Chess('4k3/8/8/3n4/8/8/8/3RK3 w - - 0 1');
+    expect(staticExchange(chess, { from: 'd1', to: 'd5' })).toBe(320);
+  });
+
+  it('loses the capturer when the target is defended', () => {
+    const chess = new Chess('3r2k1/8/8/3n4/8/8/3R4/6K1 w - - 0 1');
+    expect(staticExchange(chess, { from: 'd2', to: 'd5' })).toBe(320 - 500);
+  });
+
+  it('brings in x-ray attackers lined up behind the first capturer', () => {
+    const chess = new Chess('3r2k1/8/8/3n4/8/8/3R4/3R2K1 w - - 0 1');
+    expect(staticExchange(chess, { from: 'd2', to: 'd5' })).toBe(320);
+  });
+
+  it('lets the defender stop when recapturing would lose more', () => {
+    // Pawn takes the knight; the queen recapturing would only lose itself to the rook
+    const chess = new Chess('4k3/8/3q4/3n4/4P3/8/8/3RK3 w - - 0 1');
+    expect(staticExchange(chess, { from: 'e4', to: 'd5' })).toBe(320);
+  });
+
+  it('takes the pawn beside the target square en passant', () => {
+    const chess = new Chess('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1');
+    const move = chess.moves({ verbose: true }).find(m => m.flags.includes('e'))!;
+    expect(staticExchange(chess, move)).toBe(100);
+
+    const defended = new Chess('4k3/2p5/8/3pP3/8/8/8/4K3 w - d6 0 1');
+    const defendedMove = defended.moves({ verbose: true }).find(m => m.flags.includes('e'))!;
+    expect(staticExchange(defended, defendedMove)).toBeCloseTo(0);
+  });
+
+  it('counts what a promotion gains and what it risks', () => {
+    expect(staticExchange(new Chess('4k3/1P6/8/8/8/8/8/4K3 w - - 0 1'), { from: 'b7', to: 'b8', promotion: 'q' }))
+      .toBe(800);
+    expect(staticExchange(new Chess('r3k3/1P6/8/8/8/8/8/4K3 w - - 0 1'), { from: 'b7', to: 'b8', promotion: 'q' }))
+      .toBe(-100);
+    expect(staticExchange(new Chess('r3k3/1P6/8/8/8/8/8/4K3 w - - 0 1'), { from: 'b7', to: 'a8', promotion: 'q' }))
+      .toBe(500 + 800);
+  });
+});
+
+describe('exchangeOn', () => {
+  it('is what the side to move wins by its best capture on the square', () => {
+    const chess = new Chess('4k3/8/8/3n4/4P3/8/8/3RK3 w - - 0 1');
+    expect(exchangeOn(chess, 'd5')).toBe(320);
+  });
+
+  it('is 0 when every capture loses material', () => {
+    const chess = new Chess('3r2k1/8/8/3n4/8/8/3R4/6K1 w - - 0 1');
+    expect(exchangeOn(chess, 'd5')).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import { Chess, Color, Square } from 'chess.js';
+
+export const exchangeValues: { [key: string]: number } = {
+  p: 100, n: 320, b: 330, r: 500, q: 900, k: 20000
+};
+
+type Capture = { from: string; to: string; promotion?: string; flags?: string };
+
+const leastValuableAttacker = (chess: Chess, square: Square, color: Color): Square | undefined =>
+  chess.attackers(square, color)
+    .sort((a, b) => exchangeValues[chess.get(a)!.type] - exchangeValues[chess.get(b)!.type])[0];
+
+// Static exchange evaluation: the material the side making `move` wins (or loses, if negative)
+// once both sides have captured on the target square for as long as it pays, in centipawns.
+// Attackers are taken cheapest first and lifted off the board as they capture, so pieces lined
+// up behind them (x-rays) join in. Pins and checks are ignored.
+export const staticExchange = (chess: Chess, move: Capture): number => {
+  const board = new Chess(chess.fen());
+  const to = move.to as Square;
+  const mover = board.get(move.from as Square);
+  if (!mover) return 0;
+
+  const gain: number[] = [];
+  if (move.flags?.includes('e')) {
+    // En passant: the captured pawn is not on the target square
+    gain.push(exchangeValues.p);
+    board.remove(`${move.to[0]}${move.from[1]}` as Square);
+  } else {
+    const victim = board.get(to);
+    gain.push(victim ? exchangeValues[victim.type] : 0);
+  }
+
+  let onSquare = exchangeValues[mover.type];
+  if (move.promotion) {
+    gain[0] += exchangeValues[move.promotion] - exchangeValues.p;
+    onSquare = exchangeValues[move.promotion];
+  }
+  board.remove(move.from as Square);
+
+  // Speculative gains for each further capture, then negamaxed back: either side may stop
+  // capturing when going on would lose material
+  let side: Color = mover.color === 'w' ? 'b' : 'w';
+  for (let attacker = leastValuableAttacker(board, to, side); attacker;
+    attacker = leastValuableAttacker(board, to, side)) {
+    gain.push(onSquare - gain[gain.length - 1]);
+
+    onSquare = exchangeValues[board.get(attacker)!.type];
+    board.remove(attacker);
+    side = side === 'w' ? 'b' : 'w';
+  }
+
+  for (let depth = gain.length - 1; depth > 0; depth--) {
+    gain[depth - 1] = -Math.max(-gain[depth - 1], gain[depth]);
+  }
+  return gain[0];
+};
+
+// What the side to move wins by its best capture of the piece on `square`; 0 if it can't
+export const exchangeOn = (chess: Chess, square: Square): number => {
+  const target = chess.get(square);
+  if (!target || target.color === chess.turn()) return 0;
+  return Math.max(0, ...chess.attackers(square, chess.turn()).map(from => staticExchange(chess, { from, to: square })));
+};
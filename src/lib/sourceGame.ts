@@ -0,0 +1,29 @@
+import type { PgnResult } from '../../supabase/functions/_shared/gameFilters';
+import { TimeClass } from './gameFilters';
+
+// The game model is shared with the edge function, like the filters
+export { colorOf, opponentOf, userResult } from '../../supabase/functions/_shared/gameFilters';
+export type { Platform, PgnResult, PlayerInfo, SourceGame } from '../../supabase/functions/_shared/gameFilters';
+
+export const pgnHeader = (pgn: string, tag: string): string | null => {
+  const match = pgn.match(new RegExp(`^\\[${tag}\\s+"([^"]*)"\\]`, 'm'));
+  return match ? match[1] : null;
+};
+
+export const parsePgnResult = (value: string | null): PgnResult =>
+  value === '1-0' || value === '0-1' || value === '1/2-1/2' ? value : '*';
+
+// Uses the Lichess convention: estimated duration = base + 40 × increment
+export const timeClassFromTimeControl = (timeControl: string | null): TimeClass | null => {
+  if (!timeControl || timeControl === '?') return null;
+  if (timeControl === '-' || timeControl.includes('/')) return 'correspondence';
+
+  const [base, increment = '0'] = timeControl.split('+');
+  const estimated = parseInt(base) + 40 * parseInt(increment);
+  if (isNaN(estimated)) return null;
+
+  if (estimated < 180) return 'bullet';
+  if (estimated < 480) return 'blitz';
+  if (estimated < 1500) return 'rapid';
+  return 'classical';
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Attempt, ReviewGrade, ReviewState, gradeAttempt, schedule } from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const attempt = (grade: ReviewGrade, at = 0): Attempt => ({ at, grade, wrongMoves: 0, hintsUsed: 0 });
+
+const review = (grades: ReviewGrade[]): ReviewState | undefined =>
+  grades.reduce<ReviewState | undefined>((previous, grade, i) => schedule('k', previous, attempt(grade, i)), undefined);
+
+describe('gradeAttempt', () => {
+  it('is good for a clean solve', () => {
+    expect(gradeAttempt(true, 0)).toBe('good');
+    expect(gradeAttempt(true, 0, 0)).toBe('good');
+  });
+
+  it('is hard for a solve after wrong moves or hints', () => {
+    expect(gradeAttempt(true, 2)).toBe('hard');
+    expect(gradeAttempt(true, 0, 1)).toBe('hard');
+  });
+
+  it('is failed when unsolved or when a hint gave the move away', () => {
+    expect(gradeAttempt(false, 0)).toBe('failed');
+    expect(gradeAttempt(true, 0, 3, true)).toBe('failed');
+  });
+});
+
+describe('schedule', () => {
+  it('waits 1 day, then 6, then multiplies by the ease factor', () => {
+    expect(review(['good'])!.intervalDays).toBe(1);
+    expect(review(['good', 'good'])!.intervalDays).toBe(6);
+
+    const third = review(['good', 'good', 'good'])!;
+    expect(third.easeFactor).toBeCloseTo(2.8);
+    expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+  });
+
+  it('lowers the ease on hard reviews and never below 1.3', () => {
+    expect(review(['hard'])!.easeFactor).toBeCloseTo(2.36);
+    expect(review(Array<ReviewGrade>(10).fill('hard'))!.easeFactor).toBe(1.3);
+    expect(review(Array<ReviewGrade>(10).fill('failed'))!.easeFactor).toBe(1.3);
+  });
+
+  it('starts over the next day after a failure', () => {
+    const failed = review(['good', 'good', 'good', 'failed'])!;
+    expect(failed.repetitions).toBe(0);
+    expect(failed.intervalDays).toBe(1);
+    expect(review(['good', 'good', 'good', 'failed', 'good'])!.intervalDays).toBe(1);
+  });
+
+  it('is due the interval after the attempt and keeps every attempt', () => {
+    const first = schedule('k', undefined, attempt('good', 1000));
+    const second = schedule('k', first, attempt('good', 5000));
+
+    expect(second.key).toBe('k');
+    expect(second.due).toBe(5000 + 6 * DAY_MS);
+    expect(second.attempts).toEqual([attempt('good', 1000), attempt('good', 5000)]);
+    expect(first.attempts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,161 @@
+import { normalizeFen } from './analysisCache';
+import { withStore } from './db';
+import { Rating } from './glicko2';
+import { RatedAttempt, getTacticRatings, getUserProfile, initialTacticRating, rateAttempt } from './puzzleRating';
+import { listPuzzleSets } from './puzzleSets';
+import { Tactic } from './tacticsGenerator';
+
+// How an attempt went, from best to worst. A solve after wrong moves or hints counts as `hard`,
+// and one where the last hint gave a move away as `failed`.
+export type ReviewGrade = 'good' | 'hard' | 'failed';
+
+export interface Attempt {
+  at: number;
+  grade: ReviewGrade;
+  wrongMoves: number;
+  hintsUsed: number;
+}
+
+export interface ReviewState {
+  // See `tacticKey`
+  key: string;
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+  due: number;
+  attempts: Attempt[];
+}
+
+export interface TrainingPuzzle {
+  key: string;
+  tactic: Tactic;
+  setName: string;
+  review?: ReviewState;
+  rating: Rating;
+}
+
+export interface AttemptResult {
+  review: ReviewState;
+  rating: RatedAttempt;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+// SM-2 response quality on its 0-5 scale; anything below 3 restarts the repetitions
+const gradeQuality: Record<ReviewGrade, number> = {
+  good: 5,
+  hard: 3,
+  failed: 1,
+};
+
+// The same position and first move is one puzzle, whichever set it was generated into
+export const tacticKey = (tactic: Pick<Tactic, 'fen' | 'solution'>): string =>
+  `${normalizeFen(tactic.fen)}|${tactic.solution[0]}`;
+
+// The hint level that shows the target square, which gives the move away
+export const REVEALING_HINT_LEVEL = 3;
+
+export const gradeAttempt = (
+  solved: boolean,
+  wrongMoves: number,
+  hintsUsed = 0,
+  moveRevealed = false
+): ReviewGrade => {
+  if (!solved || moveRevealed) return 'failed';
+  return wrongMoves === 0 && hintsUsed === 0 ? 'good' : 'hard';
+};
+
+// SM-2: intervals of 1 and 6 days, then multiplied by the ease factor, which drifts with
+// how hard each review was. Failed puzzles come back the next day.
+export const schedule = (
+  key: string,
+  previous: ReviewState | undefined,
+  attempt: Attempt
+): ReviewState => {
+  const quality = gradeQuality[attempt.grade];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    (previous?.easeFactor ?? INITIAL_EASE) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  let repetitions = previous?.repetitions ?? 0;
+  let intervalDays: number;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions++;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round((previous?.intervalDays ?? 1) * easeFactor);
+  }
+
+  return {
+    key,
+    repetitions,
+    easeFactor,
+    intervalDays,
+    due: attempt.at + intervalDays * DAY_MS,
+    attempts: [...(previous?.attempts ?? []), attempt]
+  };
+};
+
+export const getReview = (key: string): Promise<ReviewState | undefined> =>
+  withStore<ReviewState | undefined>('reviews', 'readonly', store => store.get(key));
+
+// Schedules the next review and rates both the user and the puzzle
+export const recordAttempt = async (
+  tactic: Pick<Tactic, 'fen' | 'solution' | 'difficulty' | 'rating'>,
+  grade: ReviewGrade,
+  wrongMoves: number,
+  hintsUsed = 0
+): Promise<AttemptResult> => {
+  const key = tacticKey(tactic);
+  const review = schedule(key, await getReview(key), { at: Date.now(), grade, wrongMoves, hintsUsed });
+  await withStore('reviews', 'readwrite', store => store.put(review));
+  const rating = await rateAttempt(key, initialTacticRating(tactic), grade);
+  return { review, rating };
+};
+
+// Every puzzle across the stored sets once, with its review state and current rating
+export const getAllPuzzles = async (): Promise<TrainingPuzzle[]> => {
+  const [sets, reviews, tacticRatings] = await Promise.all([
+    listPuzzleSets(),
+    withStore<ReviewState[]>('reviews', 'readonly', store => store.getAll()),
+    getTacticRatings()
+  ]);
+  const reviewsByKey = new Map(reviews.map(review => [review.key, review]));
+
+  const puzzles = new Map<string, TrainingPuzzle>();
+  for (const set of sets) {
+    for (const tactic of set.tactics) {
+      const key = tacticKey(tactic);
+      if (!puzzles.has(key)) {
+        puzzles.set(key, {
+          key,
+          tactic,
+          setName: set.name,
+          review: reviewsByKey.get(key),
+          rating: tacticRatings.get(key) ?? initialTacticRating(tactic)
+        });
+      }
+    }
+  }
+  return Array.from(puzzles.values());
+};
+
+// Puzzles that are due now: overdue reviews first, then ones never tried, closest to the
+// user's rating first
+export const getTrainingQueue = async (now = Date.now()): Promise<TrainingPuzzle[]> => {
+  const [puzzles, profile] = await Promise.all([getAllPuzzles(), getUserProfile()]);
+
+  const due = puzzles.filter(puzzle => !puzzle.review || puzzle.review.due <= now);
+  const distance = (puzzle: TrainingPuzzle) => Math.abs(puzzle.rating.rating - profile.rating.rating);
+  return due.sort((a, b) => {
+    if (a.review && b.review) return a.review.due - b.review.due;
+    if (a.review || b.review) return a.review ? -1 : 1;
+    return distance(a) - distance(b);
+  });
+};
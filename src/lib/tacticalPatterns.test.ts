@@ -0,0 +1,60 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { findPins, forkTargets, pinsCreated } from './tacticalPatterns';
+
+const afterMove = (fen: string, san: string) => {
+  const chess = new Chess(fen);
+  const move = chess.move(san);
+  return { chess, move };
+};
+
+describe('forkTargets', () => {
+  it('finds a knight fork of king and rook', () => {
+    const { chess, move } = afterMove('3r3k/8/8/4N3/8/8/8/4K3 w - - 0 1', 'Nf7+');
+    expect(forkTargets(chess, move).sort()).toEqual(['d8', 'h8']);
+  });
+
+  it('counts a piece the forker wins by exchange', () => {
+    const { chess, move } = afterMove('4k3/8/8/n7/8/8/8/4R1K1 w - - 0 1', 'Re5+');
+    expect(forkTargets(chess, move)).toEqual(['e8', 'a5']);
+  });
+
+  it('leaves out a defended piece worth less than the forker', () => {
+    const { chess, move } = afterMove('4k3/8/1p6/n7/8/8/8/4R1K1 w - - 0 1', 'Re5+');
+    expect(forkTargets(chess, move)).toEqual(['e8']);
+  });
+
+  it('finds nothing when the forker can simply be taken', () => {
+    const { chess, move } = afterMove('3r2k1/8/8/4N3/8/8/8/4K3 w - - 0 1', 'Nf7');
+    expect(forkTargets(chess, move)).toEqual([]);
+  });
+});
+
+describe('findPins', () => {
+  it('finds an absolute pin against the king', () => {
+    const chess = new Chess('4k3/8/2n5/8/B7/8/8/4K3 b - - 0 1');
+    expect(findPins(chess, 'w')).toEqual([{ pinner: 'a4', pinned: 'c6', target: 'e8', absolute: true }]);
+  });
+
+  it('finds a relative pin against a more valuable piece', () => {
+    const chess = new Chess('3qk3/8/8/3n4/8/8/8/3RK3 b - - 0 1');
+    expect(findPins(chess, 'w')).toEqual([{ pinner: 'd1', pinned: 'd5', target: 'd8', absolute: false }]);
+  });
+
+  it('ignores a valuable piece in front of a cheaper one', () => {
+    const chess = new Chess('3nk3/8/8/3q4/8/8/8/3RK3 b - - 0 1');
+    expect(findPins(chess, 'w')).toEqual([]);
+  });
+});
+
+describe('pinsCreated', () => {
+  it('reports a pin the move creates', () => {
+    const { chess, move } = afterMove('4k3/8/2n5/8/8/8/8/3BK3 w - - 0 1', 'Ba4');
+    expect(pinsCreated(chess, move)).toEqual([{ pinner: 'a4', pinned: 'c6', target: 'e8', absolute: true }]);
+  });
+
+  it('leaves out pins that were already there', () => {
+    const { chess, move } = afterMove('4k3/8/2n5/8/B7/8/8/4K3 w - - 0 1', 'Kf2');
+    expect(pinsCreated(chess, move)).toEqual([]);
+  });
+});
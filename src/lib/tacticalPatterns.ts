@@ -1,17 +1,67 @@
-import { Chess } from 'chess.js';
+import { Chess, Color, Square } from 'chess.js';
+import { Arrow, BoardAnnotations } from './annotations';
+import { sliderDirections, squareCoords, toSquare } from './boardGeometry';
+import { EngineMove } from './engineTypes';
 import { evaluatePosition } from './evaluation';
+import { detectMotifs, isInBadSpot } from './motifs';
+import { exchangeOn, staticExchange } from './see';
 
-export type TacticalPattern = 'fork' | 'pin' | 'skewer' | 'discovered-attack' | 'sacrifice' | 'mate-threat' | 'forcing';
+export type TacticalPattern =
+  | 'fork'
+  | 'pin'
+  | 'skewer'
+  | 'discovered-attack'
+  | 'sacrifice'
+  | 'mate-threat'
+  | 'forcing'
+  | 'underpromotion'
+  | 'double-check'
+  | 'deflection'
+  | 'decoy'
+  | 'overload'
+  | 'interference'
+  | 'clearance'
+  | 'x-ray'
+  | 'trapped-piece'
+  | 'back-rank-mate'
+  | 'smothered-mate'
+  | 'zwischenzug'
+  | 'hanging-piece';
+
+// How a theme is named in hints and explanations
+export const patternNames: Record<TacticalPattern, string> = {
+  fork: 'a fork',
+  pin: 'a pin',
+  skewer: 'a skewer',
+  'discovered-attack': 'a discovered attack',
+  sacrifice: 'a sacrifice',
+  'mate-threat': 'a mating attack',
+  forcing: 'forcing moves',
+  underpromotion: 'an underpromotion',
+  'double-check': 'a double check',
+  deflection: 'a deflection',
+  decoy: 'a decoy',
+  overload: 'an overloaded defender',
+  interference: 'an interference',
+  clearance: 'a clearance',
+  'x-ray': 'an x-ray attack',
+  'trapped-piece': 'a trapped piece',
+  'back-rank-mate': 'a back-rank mate',
+  'smothered-mate': 'a smothered mate',
+  zwischenzug: 'an in-between move',
+  'hanging-piece': 'a hanging piece'
+};
 
 export interface TacticalInfo {
   isTactical: boolean;
   patterns: TacticalPattern[];
   materialGain: number;
-  difficulty: 'easy' | 'medium' | 'hard';
   evalSwing: number;
+  // The engine line ends in checkmate
+  leadsToMate: boolean;
 }
 
-export const analyzeTacticalPosition = (chess: Chess, move: any, continuation: any[]): TacticalInfo => {
+export const analyzeTacticalPosition = (chess: Chess, move: EngineMove, continuation: EngineMove[]): TacticalInfo => {
   const beforeEval = evaluatePosition(chess);
   const isCheck = move.san.includes('+') || move.san.includes('#');
   const isCapture = !!move.captured;
@@ -48,16 +98,6 @@ export const analyzeTacticalPosition = (chess: Chess, move: any, continuation: a
     continuationChess.isCheckmate()
   );
   
-  // Determine difficulty based on evaluation swing and patterns
-  let difficulty: 'easy' | 'medium' | 'hard';
-  if (evalSwing > 800 || patterns.includes('mate-threat') || continuationChess.isCheckmate()) {
-    difficulty = 'hard';
-  } else if (evalSwing > 500 || patterns.length > 1) {
-    difficulty = 'medium';
-  } else {
-    difficulty = 'easy';
-  }
-  
   const materialGain = move.captured ? 
     { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 }[move.captured] || 0 : 0;
   
@@ -65,21 +105,33 @@ export const analyzeTacticalPosition = (chess: Chess, move: any, continuation: a
     isTactical,
     patterns,
     materialGain,
-    difficulty,
-    evalSwing
+    evalSwing,
+    leadsToMate: continuationChess.isCheckmate()
   };
 };
 
-const detectPatterns = (chess: Chess, move: any, continuation: any[]): TacticalPattern[] => {
+const detectPatterns = (chess: Chess, move: EngineMove, continuation: EngineMove[]): TacticalPattern[] => {
   const patterns: TacticalPattern[] = [];
   
+  // Promoting to anything but a queen, now or later in the line (the solver's moves are
+  // every other one, starting after the opponent's reply)
+  const solverMoves = [move, ...continuation.filter((_, index) => index % 2 === 1)];
+  if (solverMoves.some(m => m?.promotion && m.promotion !== 'q')) {
+    patterns.push('underpromotion');
+  }
+  
+  // Motifs from the registry in motifs.ts, over the line up to its first gap
+  const gap = continuation.findIndex(m => !m);
+  const line = [move, ...(gap === -1 ? continuation : continuation.slice(0, gap))];
+  const motifs = detectMotifs(line).map(evidence => evidence.pattern);
+  
   chess.move(move);
   
   // Check for checkmate threat
   if (chess.isCheckmate()) {
     patterns.push('mate-threat');
     chess.undo();
-    return patterns;
+    return [...patterns, ...motifs];
   }
   
   // Check for forcing moves (checks that lead to advantage)
@@ -97,91 +149,115 @@ const detectPatterns = (chess: Chess, move: any, continuation: any[]): TacticalP
     patterns.push('pin');
   }
   
-  // Check for sacrifice patterns (losing material temporarily for advantage)
-  if (move.captured && continuation.length > 0) {
-    const beforeMaterial = getMaterialDifference(new Chess(chess.fen()));
-    
-    const testChess = new Chess(chess.fen());
-    continuation.slice(0, 2).forEach(m => {
-      if (m) {
-        try {
-          testChess.move(m);
-        } catch {}
-      }
-    });
-    
-    const afterMaterial = getMaterialDifference(testChess);
-    
-    if (afterMaterial > beforeMaterial + 200) {
-      patterns.push('sacrifice');
-    }
+  // Sacrifices: the move gives up material by static exchange, yet the line still wins.
+  // A capture can lose the exchange; a quiet move can leave the piece to be taken.
+  const givesUpMaterial = move.captured
+    ? staticExchange(new Chess(move.before), move) < 0
+    : exchangeOn(chess, move.to) > 0;
+  if (givesUpMaterial && continuation.length > 0) {
+    patterns.push('sacrifice');
   }
   
   chess.undo();
   
-  return patterns;
+  return [...patterns, ...motifs];
 };
 
-const detectFork = (chess: Chess, move: any): boolean => {
+// Squares of the pieces the piece that just moved forks: the king, and pieces it wins by
+// capturing them. A forker that can simply be won back forks nothing.
+export const forkTargets = (chess: Chess, move: Pick<EngineMove, 'to'>): string[] => {
   // Get the piece that just moved
-  const piece = chess.get(move.to as any);
-  if (!piece) return false;
-  
-  // Get all squares this piece attacks
-  const moves = chess.moves({ square: move.to as any, verbose: true });
-  
-  // Count valuable pieces being attacked
-  const valuablePieces = ['q', 'r', 'n', 'b'];
-  const attackedValuablePieces = moves.filter(m => 
-    m.captured && valuablePieces.includes(m.captured)
-  );
+  const forker = move.to as Square;
+  const piece = chess.get(forker);
+  if (!piece || isInBadSpot(chess, forker)) return [];
+
+  // Winning captures are judged by static exchange, like hanging pieces and sacrifices
+  const wins = (square: Square) => staticExchange(chess, { from: forker, to: square }) > 0;
+  // A piece that can take the forker without losing material isn't forked
+  const takesBack = (square: Square) =>
+    chess.attackers(forker, chess.turn()).includes(square) &&
+    staticExchange(chess, { from: square, to: forker }) >= 0;
   
-  return attackedValuablePieces.length >= 2;
+  // It is the opponent's turn now, so look for attackers rather than our legal moves
+  return chess.board().flat()
+    .filter(target => target && target.color !== piece.color && target.type !== 'p')
+    .filter(target => chess.attackers(target!.square, piece.color).includes(forker))
+    .filter(target => target!.type === 'k' || (wins(target!.square) && !takesBack(target!.square)))
+    .map(target => target!.square);
 };
 
-const detectPin = (chess: Chess, move: any): boolean => {
-  // This is a simplified pin detection
-  // A real implementation would need to check if a piece is pinned to a more valuable piece
-  
-  const board = chess.board();
-  const movedPiece = chess.get(move.to as any);
+const detectFork = (chess: Chess, move: EngineMove): boolean => forkTargets(chess, move).length >= 2;
+
+// Arrows explaining a puzzle's first move: the move itself and, for forks, what it hits
+export const tacticAnnotations = (fen: string, firstMove: string): BoardAnnotations => {
+  const chess = new Chess(fen);
+  const move = chess.move(firstMove);
+  const arrows: Arrow[] = [{ from: move.from, to: move.to, color: 'G' }];
   
-  if (!movedPiece || !['r', 'b', 'q'].includes(movedPiece.type)) {
-    return false;
+  const targets = forkTargets(chess, move);
+  if (targets.length >= 2) {
+    targets.forEach(target => arrows.push({ from: move.to, to: target, color: 'R' }));
   }
   
-  // Check if this piece is attacking through another piece to a more valuable piece
-  const moves = chess.moves({ square: move.to as any, verbose: true });
-  
-  // Simplified: if we're attacking a piece that can't move without exposing the king
-  return moves.some(m => {
-    if (!m.captured) return false;
-    
-    const testChess = new Chess(chess.fen());
-    testChess.move(m);
-    
-    // If moving that piece would put king in check, it was pinned
-    return testChess.inCheck();
-  });
+  // Pins: the line from the pinner to what is behind, with the pinned piece circled
+  const pins = pinsCreated(chess, move);
+  pins.forEach(pin => arrows.push({ from: pin.pinner, to: pin.target, color: 'Y' }));
+  
+  return { arrows, squares: pins.map(pin => ({ square: pin.pinned, color: 'Y' })) };
 };
 
-const getMaterialDifference = (chess: Chess): number => {
-  const pieceValues: { [key: string]: number } = {
-    p: 100, n: 320, b: 330, r: 500, q: 900, k: 0
-  };
-  
-  let white = 0, black = 0;
-  const board = chess.board();
-  
-  board.forEach(row => {
-    row.forEach(square => {
-      if (square) {
-        const value = pieceValues[square.type];
-        if (square.color === 'w') white += value;
-        else black += value;
+export interface Pin {
+  pinner: string;
+  pinned: string;
+  // The king (absolute pin) or the more valuable piece (relative pin) behind the pinned piece
+  target: string;
+  absolute: boolean;
+}
+
+const pinValues: { [key: string]: number } = {
+  p: 1, n: 3, b: 3, r: 5, q: 9, k: 100
+};
+
+// Pins by `color`'s rooks, bishops and queens: walk each line to the first enemy piece, then
+// past it to the next piece. If that is the enemy king, or an enemy piece worth more than the
+// first one, the first piece is pinned.
+export const findPins = (chess: Chess, color: Color): Pin[] => {
+  const pins: Pin[] = [];
+
+  for (const piece of chess.board().flat()) {
+    if (!piece || piece.color !== color || !sliderDirections[piece.type]) continue;
+    const [file, rank] = squareCoords(piece.square);
+
+    for (const [df, dr] of sliderDirections[piece.type]) {
+      let pinned: Square | null = null;
+      for (let step = 1; ; step++) {
+        const square = toSquare(file + df * step, rank + dr * step);
+        if (!square) break;
+        const occupant = chess.get(square);
+        if (!occupant) continue;
+        if (occupant.color === color) break;
+
+        if (!pinned) {
+          pinned = square;
+          continue;
+        }
+
+        const pinnedType = chess.get(pinned)!.type;
+        if (occupant.type === 'k' || pinValues[occupant.type] > pinValues[pinnedType]) {
+          pins.push({ pinner: piece.square, pinned, target: square, absolute: occupant.type === 'k' });
+        }
+        break;
       }
-    });
-  });
-  
-  return chess.turn() === 'w' ? white - black : black - white;
+    }
+  }
+
+  return pins;
+};
+
+// Pins the move creates, whether by the moved piece or by a line it opened
+export const pinsCreated = (chess: Chess, move: Pick<EngineMove, 'color' | 'before'>): Pin[] => {
+  const existing = new Set(findPins(new Chess(move.before), move.color).map(pin => `${pin.pinner}${pin.pinned}`));
+  return findPins(chess, move.color).filter(pin => !existing.has(`${pin.pinner}${pin.pinned}`));
 };
+
+const detectPin = (chess: Chess, move: EngineMove): boolean => pinsCreated(chess, move).length > 0;
@@ -1,35 +1,81 @@
-import { Chess } from 'chess.js';
-import { analyzeTacticalPosition } from './tacticalPatterns';
+import { Chess, Move } from 'chess.js';
+import { AnalysisResult } from './engineTypes';
+import { Rating } from './glicko2';
+import { Difficulty, difficultyForRating, seedTacticRating } from './puzzleRating';
+import { SourceGame } from './sourceGame';
+import { TacticalPattern, analyzeTacticalPosition } from './tacticalPatterns';
 import { getWorkerPool } from './workerPool';
 
+// Which of the user's moments become puzzles:
+// - missed: the user had a winning move and played something else
+// - found: the user found the engine's winning move at the board
+// - unpunished: the opponent just blundered and the user did not take advantage
+export type TacticMode = 'missed' | 'found' | 'unpunished';
+
 export interface Tactic {
   fen: string;
   solution: string[];
-  difficulty: "easy" | "medium" | "hard";
+  difficulty: Difficulty;
+  // Glicko-2 rating seeded from the engine line; see puzzleRating for how it is refined.
+  // Missing on sets saved before puzzles were rated.
+  rating?: Rating;
+  // Motifs found in the solution; missing on sets saved before they were recorded
+  patterns?: TacticalPattern[];
   gameUrl: string;
   evaluation: number;
   playerSide: 'w' | 'b';
+  mode: TacticMode;
+  // What was actually played at the board and what it cost, for missed opportunities
+  playedMove?: string;
+  centipawnLoss?: number;
+  // Source game, the ply the puzzle starts at, and White-relative evaluations of every
+  // position in that game that was analyzed along the way (null where it was not)
+  game: SourceGame;
+  ply: number;
+  gameEvaluations: Array<number | null>;
+}
+
+export interface GenerateTacticsOptions {
+  mode?: TacticMode;
+}
+
+// Centipawns the opponent's last move must have handed over to count as a blunder
+const OPPONENT_BLUNDER_THRESHOLD = 200;
+
+// Centipawns the played move must give up versus the engine's best to count as missed
+const MISSED_TACTIC_THRESHOLD = 200;
+
+// Beyond this the position is simply won; keeps "mate in 3 vs +12" from counting as a loss
+const SCORE_CAP = 1000;
+
+const capScore = (score: number): number => Math.max(-SCORE_CAP, Math.min(SCORE_CAP, score));
+
+interface PositionToAnalyze {
+  fenBefore: string;
+  // Position before the opponent's preceding move
+  previousFen: string;
+  actualMove: Move;
+  gameUrl: string;
+  gameIndex: number;
+  moveIndex: number;
 }
 
 export const generateTactics = async (
-  games: any[],
-  onProgress?: (progress: number, status: string) => void
+  games: SourceGame[],
+  onProgress?: (progress: number, status: string) => void,
+  options: GenerateTacticsOptions = {}
 ): Promise<Tactic[]> => {
+  const mode = options.mode ?? 'found';
   const tactics: Tactic[] = [];
   const seenPositions = new Set<string>();
   const workerPool = getWorkerPool();
 
-  console.log('Starting parallel tactics generation from', games.length, 'games');
+  console.log('Starting parallel tactics generation from', games.length, 'games in', mode, 'mode');
   console.log('Worker pool:', workerPool.getStatus());
 
-  // Collect all positions to analyze
-  const positionsToAnalyze: Array<{
-    fenBefore: string;
-    actualMove: any;
-    gameUrl: string;
-    gameIndex: number;
-    moveIndex: number;
-  }> = [];
+  // Collect the user's positions to analyze
+  const positionsToAnalyze: PositionToAnalyze[] = [];
+  const gamePositions: string[][] = games.map(() => []);
 
   let totalMoves = 0;
 
@@ -41,19 +87,24 @@ export const generateTactics = async (
       const history = chess.history({ verbose: true });
       totalMoves += history.length;
 
-      for (let i = 10; i < history.length - 4; i++) {
-        chess.reset();
+      if (history.length > 0) {
+        gamePositions[gameIndex] = [history[0].before, ...history.map(move => move.after)];
+      }
 
-        for (let j = 0; j < i; j++) {
-          chess.move(history[j]);
-        }
+      // Without a known perspective (e.g. anonymous PGN imports) both sides are considered
+      const userSide = game.userColor ? (game.userColor === 'white' ? 'w' : 'b') : null;
+
+      for (let i = 10; i < history.length - 4; i++) {
+        const actualMove = history[i];
+        const fenBefore = actualMove.before;
 
-        const fenBefore = chess.fen();
+        if (userSide && actualMove.color !== userSide) continue;
 
         if (!seenPositions.has(fenBefore)) {
           positionsToAnalyze.push({
             fenBefore,
-            actualMove: history[i],
+            previousFen: history[i - 1].before,
+            actualMove,
             gameUrl: game.url,
             gameIndex,
             moveIndex: i
@@ -66,63 +117,94 @@ export const generateTactics = async (
     }
   });
 
-  console.log(`Found ${positionsToAnalyze.length} unique positions to analyze`);
+  // Judging the played move needs the position after it, and judging the
+  // opponent's move needs the position before it
+  const fensToAnalyze = new Set(positionsToAnalyze.map(pos => pos.fenBefore));
+  if (mode !== 'found') {
+    positionsToAnalyze.forEach(pos => fensToAnalyze.add(pos.actualMove.after));
+  }
+  if (mode === 'unpunished') {
+    positionsToAnalyze.forEach(pos => fensToAnalyze.add(pos.previousFen));
+  }
+
+  console.log(`Found ${positionsToAnalyze.length} unique positions, ${fensToAnalyze.size} to analyze`);
 
   if (onProgress) {
-    onProgress(5, `Found ${positionsToAnalyze.length} positions. Analyzing with ${workerPool.getStatus().totalWorkers} CPU cores...`);
+    onProgress(5, `Found ${fensToAnalyze.size} positions. Analyzing with ${workerPool.getStatus().totalWorkers} CPU cores...`);
   }
 
   // Analyze all positions in parallel using worker pool
-  const analysisResults: any[] = [];
-  const analysisPromises: Promise<any>[] = [];
+  const analyses = new Map<string, AnalysisResult>();
+  let completed = 0;
 
-  positionsToAnalyze.forEach((pos, index) => {
-    const promise = workerPool.analyze(pos.fenBefore, 15).then(result => {
-      const progress = 5 + ((index + 1) / positionsToAnalyze.length) * 80;
-      const gamePercent = ((pos.moveIndex / (totalMoves / games.length)) * 100).toFixed(1);
+  const analysisPromises = Array.from(fensToAnalyze).map((fen, index) =>
+    workerPool.analyze(fen, 15).then(result => {
+      analyses.set(fen, result);
+      completed++;
 
       if (onProgress) {
         onProgress(
-          progress,
-          `Analyzed ${index + 1}/${positionsToAnalyze.length} positions (Game ${pos.gameIndex + 1}: ${gamePercent}% done)`
+          5 + (completed / fensToAnalyze.size) * 80,
+          `Analyzed ${completed}/${fensToAnalyze.size} positions across ${games.length} games (${totalMoves} moves)`
         );
       }
-
-      return {
-        ...pos,
-        bestContinuation: result
-      };
     }).catch(error => {
       console.error(`Analysis error at position ${index}:`, error);
-      return null;
-    });
-
-    analysisPromises.push(promise);
-  });
+    })
+  );
 
   // Wait for all analyses to complete
-  const results = await Promise.all(analysisPromises);
-  analysisResults.push(...results);
+  await Promise.all(analysisPromises);
+
+  const { cacheHits, cacheMisses } = workerPool.getStatus();
+  console.log(`Analysis cache: ${cacheHits} hits, ${cacheMisses} misses`);
 
   if (onProgress) {
     onProgress(90, 'Filtering high-quality tactics...');
   }
 
-  // Process results and extract tactics
-  for (const result of analysisResults) {
-    if (!result || !result.bestContinuation) continue;
+  const gameEvaluations = gamePositions.map(fens =>
+    fens.map(fen => {
+      const analysis = analyses.get(fen);
+      if (!analysis) return null;
+      return new Chess(fen).turn() === 'w' ? analysis.score : -analysis.score;
+    })
+  );
 
-    const { fenBefore, actualMove, gameUrl, bestContinuation } = result;
+  // Process results and extract tactics
+  for (const { fenBefore, previousFen, actualMove, gameUrl, gameIndex, moveIndex } of positionsToAnalyze) {
+    const bestContinuation = analyses.get(fenBefore);
+    if (!bestContinuation) continue;
 
     const engineTopMove = bestContinuation.moves[0];
+    if (!engineTopMove) continue;
+
+    const foundBestMove = engineTopMove.san === actualMove.san;
+    if (mode === 'found' ? !foundBestMove : foundBestMove) continue;
+
+    let centipawnLoss: number | undefined;
+
+    if (mode !== 'found') {
+      const afterPlayed = analyses.get(actualMove.after);
+      if (!afterPlayed) continue;
+
+      // The reply position is scored for the opponent, so negate it back
+      centipawnLoss = capScore(bestContinuation.score) - capScore(-afterPlayed.score);
+      if (centipawnLoss < MISSED_TACTIC_THRESHOLD) continue;
+    }
+
+    if (mode === 'unpunished') {
+      const previous = analyses.get(previousFen);
+      if (!previous) continue;
 
-    if (!engineTopMove || engineTopMove.san !== actualMove.san) {
-      continue;
+      // Both scores are from the side to move, so the opponent's score negates
+      const opponentGift = bestContinuation.score + previous.score;
+      if (opponentGift < OPPONENT_BLUNDER_THRESHOLD) continue;
     }
 
     const tacticalInfo = analyzeTacticalPosition(
       new Chess(fenBefore),
-      actualMove,
+      engineTopMove,
       bestContinuation.moves.slice(1, 4)
     );
 
@@ -143,16 +225,25 @@ export const generateTactics = async (
       }
 
       if (solution.length >= 2) {
-        // Determine who should solve: side to move in the position
-        const playerSide = new Chess(fenBefore).turn();
+        // The user (or the side to move, when unknown) solves the puzzle
+        const playerSide = actualMove.color;
+        const rating = seedTacticRating(tacticalInfo, engineTopMove, solution.length);
         
         tactics.push({
           fen: fenBefore,
           solution: solution.slice(0, 5),
-          difficulty: tacticalInfo.difficulty,
+          difficulty: difficultyForRating(rating.rating),
+          rating,
+          patterns: tacticalInfo.patterns,
           gameUrl: gameUrl,
           evaluation: tacticalInfo.evalSwing / 100,
-          playerSide
+          playerSide,
+          mode,
+          playedMove: foundBestMove ? undefined : actualMove.san,
+          centipawnLoss,
+          game: games[gameIndex],
+          ply: moveIndex,
+          gameEvaluations: gameEvaluations[gameIndex]
         });
 
         if (tactics.length >= 20) break;
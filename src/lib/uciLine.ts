@@ -0,0 +1,34 @@
+import { Chess, Move } from 'chess.js';
+import { EngineMove } from './engineTypes';
+
+export const toEngineMove = (move: Move): EngineMove => ({
+  color: move.color,
+  from: move.from,
+  to: move.to,
+  piece: move.piece,
+  captured: move.captured,
+  promotion: move.promotion,
+  flags: move.flags,
+  san: move.san,
+  lan: move.lan,
+  before: move.before,
+  after: move.after
+});
+
+// Plays UCI moves (e2e4, e7e8q) from `fen`, stopping at the first one that is not legal
+export const playUciLine = (fen: string, uciMoves: string[]): EngineMove[] => {
+  const chess = new Chess(fen);
+  const moves: EngineMove[] = [];
+  for (const uciMove of uciMoves) {
+    try {
+      const from = uciMove.substring(0, 2);
+      const to = uciMove.substring(2, 4);
+      const promotion = uciMove.length > 4 ? uciMove[4] : undefined;
+
+      moves.push(toEngineMove(chess.move({ from, to, promotion })));
+    } catch {
+      break;
+    }
+  }
+  return moves;
+};
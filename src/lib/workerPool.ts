@@ -1,18 +1,23 @@
+import { clearAnalysisCache, getCachedAnalysis, putCachedAnalysis } from './analysisCache';
+import { AnalysisResult, WorkerRequest, WorkerResponse } from './engineTypes';
+
 export class WorkerPool {
   private workers: Worker[] = [];
   private availableWorkers: Worker[] = [];
   private taskQueue: Array<{
     fen: string;
     depth: number;
-    resolve: (result: any) => void;
-    reject: (error: any) => void;
+    resolve: (result: AnalysisResult) => void;
+    reject: (error: Error) => void;
     id: number;
   }> = [];
   private nextTaskId = 0;
   private pendingTasks = new Map<number, {
-    resolve: (result: any) => void;
-    reject: (error: any) => void;
+    resolve: (result: AnalysisResult) => void;
+    reject: (error: Error) => void;
   }>();
+  private cacheHits = 0;
+  private cacheMisses = 0;
 
   constructor(poolSize?: number) {
     // Use limited workers for stability
@@ -26,23 +31,23 @@ export class WorkerPool {
         { type: 'module' }
       );
       
-      worker.onmessage = (e: MessageEvent) => {
-        const { type, data } = e.data;
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+        const message = e.data;
         
-        if (type === 'result') {
-          const pending = this.pendingTasks.get(data.id);
+        if (message.type === 'result') {
+          const pending = this.pendingTasks.get(message.data.id);
           if (pending) {
-            pending.resolve(data);
-            this.pendingTasks.delete(data.id);
+            pending.resolve(message.data);
+            this.pendingTasks.delete(message.data.id);
           }
           
           this.availableWorkers.push(worker);
           this.processQueue();
-        } else if (type === 'error') {
-          const pending = this.pendingTasks.get(data.id);
+        } else if (message.type === 'error') {
+          const pending = this.pendingTasks.get(message.data.id);
           if (pending) {
-            pending.reject(new Error(data.error));
-            this.pendingTasks.delete(data.id);
+            pending.reject(new Error(message.data.error));
+            this.pendingTasks.delete(message.data.id);
           }
           
           this.availableWorkers.push(worker);
@@ -61,6 +66,10 @@ export class WorkerPool {
     }
   }
 
+  private send(worker: Worker, request: WorkerRequest): void {
+    worker.postMessage(request);
+  }
+
   private processQueue(): void {
     while (this.taskQueue.length > 0 && this.availableWorkers.length > 0) {
       const task = this.taskQueue.shift()!;
@@ -71,7 +80,7 @@ export class WorkerPool {
         reject: task.reject
       });
       
-      worker.postMessage({
+      this.send(worker, {
         type: 'analyze',
         data: {
           fen: task.fen,
@@ -82,10 +91,22 @@ export class WorkerPool {
     }
   }
 
-  public analyze(fen: string, depth: number): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const id = this.nextTaskId++;
-      
+  public async analyze(fen: string, depth: number): Promise<AnalysisResult> {
+    const id = this.nextTaskId++;
+
+    try {
+      const cached = await getCachedAnalysis(fen, depth);
+      if (cached) {
+        this.cacheHits++;
+        return { ...cached, id };
+      }
+    } catch (error) {
+      // Without IndexedDB (private browsing, blocked storage) every position is analyzed
+      console.warn('Analysis cache unavailable:', error);
+    }
+    this.cacheMisses++;
+
+    const result = await new Promise<AnalysisResult>((resolve, reject) => {
       this.taskQueue.push({
         fen,
         depth,
@@ -96,12 +117,21 @@ export class WorkerPool {
       
       this.processQueue();
     });
+
+    putCachedAnalysis(result, depth).catch(error => {
+      console.warn('Failed to cache analysis:', error);
+    });
+    return result;
   }
 
-  public clearCache(): void {
-    this.workers.forEach(worker => {
-      worker.postMessage({ type: 'clear-cache' });
+  // Forgets stored analyses and resets the engines' hash tables on idle workers
+  public async clearCache(): Promise<void> {
+    this.availableWorkers.forEach(worker => {
+      this.send(worker, { type: 'clear-cache' });
     });
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
+    await clearAnalysisCache();
   }
 
   public terminate(): void {
@@ -117,7 +147,9 @@ export class WorkerPool {
       totalWorkers: this.workers.length,
       availableWorkers: this.availableWorkers.length,
       queuedTasks: this.taskQueue.length,
-      runningTasks: this.pendingTasks.size
+      runningTasks: this.pendingTasks.size,
+      cacheHits: this.cacheHits,
+      cacheMisses: this.cacheMisses
     };
   }
 }
@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EvalGraph } from "@/components/EvalGraph";
+import { GameReview as GameReviewResult, MoveJudgement, PlayerReview, ReviewedMove, reviewGame } from "@/lib/gameReview";
+import { parsePgnGames } from "@/lib/pgnImport";
+import { SourceGame } from "@/lib/sourceGame";
+import { useToast } from "@/hooks/use-toast";
+
+const judgementSymbols: Record<MoveJudgement, string> = {
+  inaccuracy: "?!",
+  mistake: "?",
+  blunder: "??",
+};
+
+const judgementColors: Record<MoveJudgement, string> = {
+  inaccuracy: "text-yellow-600 dark:text-yellow-400",
+  mistake: "text-orange-600 dark:text-orange-400",
+  blunder: "text-red-600 dark:text-red-400",
+};
+
+const PlayerSummary = ({ name, review }: { name: string; review: PlayerReview }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{name}</CardDescription>
+      <CardTitle className="text-3xl">{review.accuracy.toFixed(1)}%</CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-1 text-sm text-muted-foreground">
+      <p>Average centipawn loss: {Math.round(review.averageCentipawnLoss)}</p>
+      <div className="flex gap-2">
+        <Badge variant="outline" className={judgementColors.inaccuracy}>
+          {review.judgements.inaccuracy} inaccuracies
+        </Badge>
+        <Badge variant="outline" className={judgementColors.mistake}>
+          {review.judgements.mistake} mistakes
+        </Badge>
+        <Badge variant="outline" className={judgementColors.blunder}>
+          {review.judgements.blunder} blunders
+        </Badge>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const GameReview = () => {
+  const location = useLocation();
+  const { toast } = useToast();
+  const [pgnText, setPgnText] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [status, setStatus] = useState("");
+  const [review, setReview] = useState<GameReviewResult | null>(null);
+  const [selectedPly, setSelectedPly] = useState<number | undefined>(undefined);
+
+  const runReview = useCallback(async (game: SourceGame) => {
+    setIsLoading(true);
+    setReview(null);
+    setSelectedPly(undefined);
+
+    try {
+      const result = await reviewGame(game, (value, text) => {
+        setProgress(value);
+        setStatus(text);
+      });
+      setReview(result);
+    } catch (error) {
+      console.error('Error reviewing game:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review game",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+      setProgress(0);
+      setStatus("");
+    }
+  }, [toast]);
+
+  // Other pages can hand over a game through router state
+  useEffect(() => {
+    const game = (location.state as { game?: SourceGame } | null)?.game;
+    if (game) {
+      setPgnText(game.pgn);
+      runReview(game);
+    }
+  }, [location.state, runReview]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { games } = parsePgnGames(pgnText);
+
+    if (games.length === 0) {
+      toast({
+        title: "No game found",
+        description: "Could not read a game from the PGN.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (games.length > 1) {
+      toast({
+        title: "Several games found",
+        description: `Reviewing the first of ${games.length} games`,
+      });
+    }
+
+    runReview(games[0]);
+  };
+
+  const movePairs: Array<[ReviewedMove, ReviewedMove | undefined]> = [];
+  review?.moves.forEach((move, index) => {
+    if (move.color === "w" || index === 0) {
+      movePairs.push(move.color === "w" ? [move, undefined] : [undefined, move]);
+    } else {
+      movePairs[movePairs.length - 1][1] = move;
+    }
+  });
+
+  const renderMove = (move: ReviewedMove | undefined) => {
+    if (!move) return <span className="text-muted-foreground">…</span>;
+
+    return (
+      <button
+        type="button"
+        onClick={() => setSelectedPly(move.ply + 1)}
+        className={`rounded px-1 font-mono text-left hover:bg-muted ${
+          selectedPly === move.ply + 1 ? "bg-muted" : ""
+        }`}
+        title={move.bestMove && move.judgement ? `Best was ${move.bestMove}` : undefined}
+      >
+        {move.san}
+        {move.judgement && (
+          <span className={`ml-1 font-bold ${judgementColors[move.judgement]}`}>
+            {judgementSymbols[move.judgement]}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const selectedMove = selectedPly ? review?.moves[selectedPly - 1] : undefined;
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4">
+      <div className="container max-w-4xl mx-auto space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl md:text-5xl font-bold text-foreground">Game Review</h1>
+          <p className="text-muted-foreground text-lg">
+            Every move classified as an inaccuracy, mistake or blunder
+          </p>
+          <Link to="/" className="text-primary hover:underline text-sm">
+            ← Back to tactics
+          </Link>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-pgn">PGN</Label>
+                <Textarea
+                  id="review-pgn"
+                  placeholder="Paste a game to review"
+                  value={pgnText}
+                  onChange={(e) => setPgnText(e.target.value)}
+                  className="min-h-[120px] font-mono text-xs"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading || !pgnText.trim()}>
+                {isLoading ? "Reviewing..." : "Review Game"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {isLoading && progress > 0 && (
+          <div className="space-y-2 p-6 bg-card rounded-lg border">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{status}</span>
+              <span>{Math.round(progress)}%</span>
+            </div>
+            <div className="w-full bg-secondary rounded-full h-3 overflow-hidden">
+              <div
+                className="bg-primary h-full transition-all duration-300 ease-out"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {review && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <PlayerSummary name={`White: ${review.game.white.name}`} review={review.white} />
+              <PlayerSummary name={`Black: ${review.game.black.name}`} review={review.black} />
+            </div>
+
+            <Card>
+              <CardContent className="pt-6">
+                <EvalGraph
+                  evaluations={[review.moves[0].evalBefore, ...review.moves.map((move) => move.evalAfter)]}
+                  currentPly={selectedPly}
+                  onSelectPly={setSelectedPly}
+                />
+                {selectedMove && (
+                  <p className="mt-2 text-sm text-center text-muted-foreground">
+                    {selectedMove.san}: {selectedMove.centipawnLoss} centipawns lost,{" "}
+                    {selectedMove.winChanceDrop.toFixed(1)}% win chance dropped
+                    {selectedMove.bestMove && selectedMove.bestMove !== selectedMove.san
+                      ? ` (best was ${selectedMove.bestMove})`
+                      : ""}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Moves</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-[3rem_1fr_1fr] gap-y-1 text-sm">
+                  {movePairs.map(([white, black], index) => (
+                    <div key={index} className="contents">
+                      <span className="text-muted-foreground">{index + 1}.</span>
+                      {renderMove(white)}
+                      {renderMove(black)}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
@@ -1,8 +1,17 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { BoardSettingsMenu } from "@/components/BoardSettingsMenu";
 import { ChessForm } from "@/components/ChessForm";
+import { PuzzleSetList } from "@/components/PuzzleSetList";
 import { TacticCard } from "@/components/TacticCard";
 import { fetchChessComGames, fetchLichessGames } from "@/lib/chessApi";
-import { generateTactics, Tactic } from "@/lib/tacticsGenerator";
+import { GameFilters } from "@/lib/gameFilters";
+import { parsePgnGames } from "@/lib/pgnImport";
+import { PUZZLE_SETS_QUERY_KEY, PuzzleSet, savePuzzleSet } from "@/lib/puzzleSets";
+import { Platform, SourceGame } from "@/lib/sourceGame";
+import { tacticKey } from "@/lib/srs";
+import { generateTactics, Tactic, TacticMode } from "@/lib/tacticsGenerator";
 import { useToast } from "@/hooks/use-toast";
 
 const Index = () => {
@@ -10,11 +19,68 @@ const Index = () => {
   const [tactics, setTactics] = useState<Tactic[]>([]);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [analysisStatus, setAnalysisStatus] = useState("");
+  const [activeSet, setActiveSet] = useState<PuzzleSet | null>(null);
+  const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const handleSubmit = async (username: string, platform: "chess.com" | "lichess", gameCount: number) => {
+  const saveSet = async (username: string, platform: Platform, mode: TacticMode, gameCount: number, tactics: Tactic[]) => {
+    try {
+      const saved = await savePuzzleSet({ username, platform, mode, gameCount, tactics });
+      setActiveSet(saved);
+      await queryClient.invalidateQueries({ queryKey: PUZZLE_SETS_QUERY_KEY });
+    } catch (error) {
+      // The puzzles are still shown; they just won't be there after a reload
+      console.error('Failed to save puzzle set:', error);
+      toast({
+        title: "Puzzles not saved",
+        description: "Could not store this set on your device.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const analyzeGames = async (games: SourceGame[], username: string, platform: Platform, mode: TacticMode) => {
+    toast({
+      title: "Analyzing positions...",
+      description: "Starting multi-threaded analysis using all CPU cores",
+    });
+
+    const generatedTactics = await generateTactics(games, (progress, status) => {
+      setAnalysisProgress(progress);
+      setAnalysisStatus(status);
+    }, { mode });
+
+    console.log('Generated tactics:', generatedTactics.length);
+
+    if (generatedTactics.length === 0) {
+      toast({
+        title: "No tactics found",
+        description: "Could not find tactical positions in these games.",
+        variant: "destructive",
+      });
+    } else {
+      setTactics(generatedTactics);
+      await saveSet(username, platform, mode, games.length, generatedTactics);
+      toast({
+        title: "Success!",
+        description: `Generated ${generatedTactics.length} tactical puzzles using parallel analysis`,
+      });
+    }
+
+    setAnalysisProgress(0);
+    setAnalysisStatus("");
+  };
+
+  const handleSubmit = async (
+    username: string,
+    platform: "chess.com" | "lichess",
+    gameCount: number,
+    filters: GameFilters,
+    mode: TacticMode
+  ) => {
     setIsLoading(true);
     setTactics([]);
+    setActiveSet(null);
 
     try {
       toast({
@@ -25,54 +91,65 @@ const Index = () => {
       console.log('Starting to fetch games for:', username, platform, gameCount);
 
       const games = platform === "chess.com"
-        ? await fetchChessComGames(username, gameCount)
-        : await fetchLichessGames(username, gameCount);
+        ? await fetchChessComGames(username, gameCount, filters)
+        : await fetchLichessGames(username, gameCount, filters);
 
       console.log('Fetched games:', games.length);
 
       if (games.length === 0) {
         toast({
           title: "No games found",
-          description: "Could not find any recent games for this user.",
+          description: "Could not find any games for this user matching the selected filters.",
           variant: "destructive",
         });
-        setIsLoading(false);
         return;
       }
 
+      await analyzeGames(games, username, platform, mode);
+    } catch (error) {
+      console.error('Error in handleSubmit:', error);
       toast({
-        title: "Analyzing positions...",
-        description: "Starting multi-threaded analysis using all CPU cores",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch games",
+        variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      const generatedTactics = await generateTactics(games, (progress, status) => {
-        setAnalysisProgress(progress);
-        setAnalysisStatus(status);
-      });
+  const handleImport = async (pgnText: string, username: string, gameCount: number, mode: TacticMode) => {
+    setIsLoading(true);
+    setTactics([]);
+    setActiveSet(null);
+
+    try {
+      const { games, skipped } = parsePgnGames(pgnText, username);
 
-      console.log('Generated tactics:', generatedTactics.length);
+      console.log('Imported PGN games:', games.length, 'skipped:', skipped);
 
-      if (generatedTactics.length === 0) {
+      if (games.length === 0) {
         toast({
-          title: "No tactics found",
-          description: "Could not find tactical positions in these games.",
+          title: "No games found",
+          description: "Could not read any games from the PGN.",
           variant: "destructive",
         });
-      } else {
-        setTactics(generatedTactics);
-        toast({
-          title: "Success!",
-          description: `Generated ${generatedTactics.length} tactical puzzles using parallel analysis`,
-        });
+        return;
       }
-      
-      setAnalysisProgress(0);
-      setAnalysisStatus("");
+
+      toast({
+        title: "PGN imported",
+        description: skipped > 0
+          ? `Read ${games.length} games (${skipped} could not be parsed)`
+          : `Read ${games.length} games`,
+      });
+
+      await analyzeGames(games.slice(0, gameCount), username, "pgn", mode);
     } catch (error) {
-      console.error('Error in handleSubmit:', error);
+      console.error('Error in handleImport:', error);
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to fetch games",
+        description: error instanceof Error ? error.message : "Failed to import PGN",
         variant: "destructive",
       });
     } finally {
@@ -90,12 +167,38 @@ const Index = () => {
           <p className="text-muted-foreground text-lg">
             Improve your chess by analyzing your own games
           </p>
+          <div className="flex justify-center gap-4">
+            <Link to="/train" className="text-primary hover:underline text-sm">
+              Train due puzzles →
+            </Link>
+            <Link to="/rush" className="text-primary hover:underline text-sm">
+              Puzzle rush →
+            </Link>
+            <Link to="/review" className="text-primary hover:underline text-sm">
+              Review a full game →
+            </Link>
+            <BoardSettingsMenu />
+          </div>
         </div>
 
         <div className="flex justify-center">
-          <ChessForm onSubmit={handleSubmit} isLoading={isLoading} />
+          <ChessForm onSubmit={handleSubmit} onImport={handleImport} isLoading={isLoading} />
         </div>
 
+        <PuzzleSetList
+          activeSetId={activeSet?.id}
+          onOpen={(set) => {
+            setActiveSet(set);
+            setTactics(set.tactics);
+          }}
+          onDeleted={(id) => {
+            if (activeSet?.id === id) {
+              setActiveSet(null);
+              setTactics([]);
+            }
+          }}
+        />
+
         {isLoading && analysisProgress > 0 && (
           <div className="max-w-2xl mx-auto space-y-2 p-6 bg-card rounded-lg border">
             <div className="flex justify-between text-sm text-muted-foreground">
@@ -117,11 +220,12 @@ const Index = () => {
         {tactics.length > 0 && (
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold text-center">
-              Your Tactics Puzzles
+              {activeSet ? activeSet.name : "Your Tactics Puzzles"}
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {tactics.map((tactic, index) => (
-                <TacticCard key={index} {...tactic} index={index} />
+                // Keyed by set and puzzle so opening another set starts every card afresh
+                <TacticCard key={`${activeSet?.id}-${tacticKey(tactic)}`} {...tactic} index={index} />
               ))}
             </div>
           </div>
@@ -0,0 +1,229 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { BoardSettingsMenu } from "@/components/BoardSettingsMenu";
+import { InteractiveBoard } from "@/components/InteractiveBoard";
+import { TrainingPuzzle, getAllPuzzles } from "@/lib/srs";
+
+const DURATIONS = [3, 5] as const;
+const MAX_STRIKES = 3;
+
+interface RushResult {
+  puzzle: TrainingPuzzle;
+  solved: boolean;
+  timeMs: number;
+}
+
+const formatClock = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const Rush = () => {
+  const { data: puzzles = [], isLoading } = useQuery({
+    queryKey: ["allPuzzles"],
+    queryFn: getAllPuzzles,
+    gcTime: 0,
+  });
+  const [minutes, setMinutes] = useState<(typeof DURATIONS)[number]>(3);
+  const [phase, setPhase] = useState<"setup" | "playing" | "finished">("setup");
+  // Easiest first; the run gets harder the longer it lasts
+  const [queue, setQueue] = useState<TrainingPuzzle[]>([]);
+  const [position, setPosition] = useState(0);
+  const [results, setResults] = useState<RushResult[]>([]);
+  const [endsAt, setEndsAt] = useState(0);
+  const [remaining, setRemaining] = useState(0);
+  const [puzzleStartedAt, setPuzzleStartedAt] = useState(0);
+  // Engine verdicts can resolve after the render that started them, even after the clock
+  // ran out, so the run's state they check lives in refs
+  const running = useRef(false);
+  const recorded = useRef<RushResult[]>([]);
+
+  const strikes = results.filter((result) => !result.solved).length;
+  const score = results.length - strikes;
+
+  useEffect(() => {
+    if (phase !== "playing") return;
+
+    const timer = setInterval(() => {
+      const left = Math.max(0, endsAt - Date.now());
+      setRemaining(left);
+      if (left === 0) {
+        running.current = false;
+        setPhase("finished");
+      }
+    }, 100);
+
+    return () => clearInterval(timer);
+  }, [phase, endsAt]);
+
+  const start = () => {
+    const now = Date.now();
+    setQueue([...puzzles].sort((a, b) => a.rating.rating - b.rating.rating));
+    setPosition(0);
+    setResults([]);
+    recorded.current = [];
+    running.current = true;
+    setEndsAt(now + minutes * 60 * 1000);
+    setRemaining(minutes * 60 * 1000);
+    setPuzzleStartedAt(now);
+    setPhase("playing");
+  };
+
+  // Any wrong move fails the puzzle; either way the next one comes straight up
+  const finishPuzzle = (solved: boolean) => {
+    if (!running.current) return;
+
+    const puzzle = queue[position];
+    const nextResults = [...recorded.current, { puzzle, solved, timeMs: Date.now() - puzzleStartedAt }];
+    recorded.current = nextResults;
+    setResults(nextResults);
+
+    const nextStrikes = nextResults.filter((result) => !result.solved).length;
+    if (nextStrikes >= MAX_STRIKES || position + 1 >= queue.length) {
+      running.current = false;
+      setPhase("finished");
+      return;
+    }
+
+    setPosition(position + 1);
+    setPuzzleStartedAt(Date.now());
+  };
+
+  const fastestSolves = results
+    .filter((result) => result.solved)
+    .sort((a, b) => a.timeMs - b.timeMs)
+    .slice(0, 3);
+  const failedPuzzles = results.filter((result) => !result.solved);
+  const puzzle = queue[position];
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4">
+      <div className="container max-w-xl mx-auto space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl md:text-5xl font-bold text-foreground">Puzzle Rush</h1>
+          <p className="text-muted-foreground text-lg">
+            Solve as many as you can before the clock runs out. Three strikes and you're out.
+          </p>
+          <div className="flex items-center justify-center gap-2">
+            <Link to="/" className="text-primary hover:underline text-sm">
+              ← Back to tactics
+            </Link>
+            <BoardSettingsMenu />
+          </div>
+        </div>
+
+        {phase === "setup" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Start a run</CardTitle>
+              <CardDescription>
+                {isLoading
+                  ? "Loading your puzzles..."
+                  : puzzles.length === 0
+                    ? "Generate a puzzle set first; runs use the puzzles saved on this device."
+                    : `${puzzles.length} puzzles available, served from easiest to hardest`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ToggleGroup
+                type="single"
+                variant="outline"
+                value={String(minutes)}
+                onValueChange={(value) => value && setMinutes(Number(value) as (typeof DURATIONS)[number])}
+              >
+                {DURATIONS.map((duration) => (
+                  <ToggleGroupItem key={duration} value={String(duration)}>
+                    {duration} minutes
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <Button className="w-full" onClick={start} disabled={puzzles.length === 0}>
+                Start
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "playing" && puzzle && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-3xl font-mono">{formatClock(remaining)}</CardTitle>
+                <div className="flex gap-2">
+                  <Badge variant="outline">Score {score}</Badge>
+                  <Badge variant="outline" className="text-destructive">
+                    {"✗".repeat(strikes)}
+                    {"·".repeat(MAX_STRIKES - strikes)}
+                  </Badge>
+                </div>
+              </div>
+              <CardDescription>
+                Puzzle {position + 1} · rated {Math.round(puzzle.rating.rating)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InteractiveBoard
+                key={puzzle.key}
+                initialFen={puzzle.tactic.fen}
+                solution={puzzle.tactic.solution}
+                playerSide={puzzle.tactic.playerSide}
+                onCorrect={() => finishPuzzle(true)}
+                onWrong={() => finishPuzzle(false)}
+                showControls={false}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {phase === "finished" && (
+          <Card>
+            <CardHeader>
+              <CardDescription>Your score</CardDescription>
+              <CardTitle className="text-5xl">{score}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {fastestSolves.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Fastest solves</h3>
+                  {fastestSolves.map(({ puzzle, timeMs }) => (
+                    <div key={puzzle.key} className="flex justify-between text-sm">
+                      <span className="font-mono">{puzzle.tactic.solution[0]}</span>
+                      <span className="text-muted-foreground">
+                        {(timeMs / 1000).toFixed(1)}s · rated {Math.round(puzzle.rating.rating)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {failedPuzzles.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Failed puzzles</h3>
+                  {failedPuzzles.map(({ puzzle }) => (
+                    <div key={puzzle.key} className="space-y-1 text-sm">
+                      <p className="font-mono text-xs bg-muted p-2 rounded">
+                        {puzzle.tactic.solution.join(" → ")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">From {puzzle.setName}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <Button className="w-full" onClick={() => setPhase("setup")}>
+                Play again
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Rush;
@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BoardSettingsMenu } from "@/components/BoardSettingsMenu";
+import { InteractiveBoard } from "@/components/InteractiveBoard";
+import { SolutionExplanation } from "@/components/SolutionExplanation";
+import {
+  AttemptResult,
+  REVEALING_HINT_LEVEL,
+  ReviewGrade,
+  gradeAttempt,
+  getTrainingQueue,
+  recordAttempt,
+} from "@/lib/srs";
+import { getUserProfile } from "@/lib/puzzleRating";
+import { useToast } from "@/hooks/use-toast";
+
+const gradeMessages: Record<ReviewGrade, string> = {
+  good: "Solved first try",
+  hard: "Solved with mistakes or hints",
+  failed: "Not solved on your own",
+};
+
+const formatInterval = (days: number) => (days === 1 ? "tomorrow" : `in ${days} days`);
+
+const Train = () => {
+  const { toast } = useToast();
+  // The queue is fixed when the page opens; puzzles due again tomorrow don't reappear today
+  const { data: queue = [], isLoading } = useQuery({
+    queryKey: ["trainingQueue"],
+    queryFn: () => getTrainingQueue(),
+    staleTime: Infinity,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+  });
+  const [position, setPosition] = useState(0);
+  const [wrongMoves, setWrongMoves] = useState(0);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [moveRevealed, setMoveRevealed] = useState(false);
+  const [result, setResult] = useState<(AttemptResult & { grade: ReviewGrade }) | null>(null);
+  // Set as soon as an outcome comes in; `result` only arrives once it has been saved
+  const finished = useRef(false);
+  const { data: profile, refetch: refetchProfile } = useQuery({
+    queryKey: ["userProfile"],
+    queryFn: getUserProfile,
+  });
+
+  const puzzle = queue[position];
+
+  const finish = async (solved: boolean) => {
+    if (!puzzle || finished.current) return;
+    finished.current = true;
+    const grade = gradeAttempt(solved, wrongMoves, hintsUsed, moveRevealed);
+
+    try {
+      const attempt = await recordAttempt(puzzle.tactic, grade, wrongMoves, hintsUsed);
+      setResult({ ...attempt, grade });
+      refetchProfile();
+    } catch (error) {
+      console.error('Failed to record attempt:', error);
+      finished.current = false;
+      toast({
+        title: "Error",
+        description: "Could not save this attempt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const next = () => {
+    setPosition(position + 1);
+    setWrongMoves(0);
+    setHintsUsed(0);
+    setMoveRevealed(false);
+    setResult(null);
+    finished.current = false;
+  };
+
+  return (
+    <div className="min-h-screen bg-background py-12 px-4">
+      <div className="container max-w-xl mx-auto space-y-8">
+        <div className="text-center space-y-2">
+          <h1 className="text-4xl md:text-5xl font-bold text-foreground">Train</h1>
+          <p className="text-muted-foreground text-lg">
+            Puzzles from all your saved sets, spaced out until they stick
+          </p>
+          {profile && (
+            <p className="text-sm">
+              Puzzle rating <span className="font-mono font-semibold">{Math.round(profile.rating.rating)}</span>
+              {profile.rating.deviation > 110 && " (provisional)"}
+            </p>
+          )}
+          <div className="flex items-center justify-center gap-2">
+            <Link to="/" className="text-primary hover:underline text-sm">
+              ← Back to tactics
+            </Link>
+            <BoardSettingsMenu />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground">Loading your puzzles...</p>
+        ) : !puzzle ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                {queue.length === 0 ? "Nothing due" : "Session complete"}
+              </CardTitle>
+              <CardDescription>
+                {queue.length === 0
+                  ? "Generate a puzzle set or come back when your reviews are due."
+                  : `You worked through ${queue.length} puzzles. Come back tomorrow for the next reviews.`}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">
+                  Puzzle {position + 1} of {queue.length}
+                </CardTitle>
+                <div className="flex gap-2">
+                  <Badge variant="outline" className="font-mono">
+                    {Math.round(puzzle.rating.rating)}
+                  </Badge>
+                  <Badge variant="outline">{puzzle.review ? "Review" : "New"}</Badge>
+                </div>
+              </div>
+              <CardDescription>From {puzzle.setName}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <InteractiveBoard
+                key={puzzle.key}
+                initialFen={puzzle.tactic.fen}
+                solution={puzzle.tactic.solution}
+                playerSide={puzzle.tactic.playerSide}
+                patterns={puzzle.tactic.patterns}
+                onHint={(level) => {
+                  setHintsUsed(hintsUsed + 1);
+                  if (level >= REVEALING_HINT_LEVEL) setMoveRevealed(true);
+                }}
+                onCorrect={() => finish(true)}
+                onWrong={() => setWrongMoves(wrongMoves + 1)}
+                onGiveUp={() => finish(false)}
+              />
+              {result && (
+                <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <p className="text-sm">
+                    {gradeMessages[result.grade]} · rating {result.rating.userChange >= 0 ? "+" : "−"}
+                    {Math.abs(Math.round(result.rating.userChange))} · next review{" "}
+                    {formatInterval(result.review.intervalDays)}
+                  </p>
+                  <Button onClick={next}>Next</Button>
+                </div>
+              )}
+              {result && <SolutionExplanation fen={puzzle.tactic.fen} solution={puzzle.tactic.solution} />}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Train;
@@ -0,0 +1,128 @@
+// The game model and filters shared by the app (re-exported from src/lib) and the
+// fetch-chess-games edge function. No imports, so it runs under both Vite and Deno.
+
+export type TimeClass = 'bullet' | 'blitz' | 'rapid' | 'classical' | 'correspondence';
+export type GameResult = 'won' | 'lost' | 'drawn';
+export type PlayerColor = 'white' | 'black';
+export type Platform = 'chess.com' | 'lichess' | 'pgn';
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export const TIME_CLASSES: TimeClass[] = ['bullet', 'blitz', 'rapid', 'classical', 'correspondence'];
+export const GAME_RESULTS: GameResult[] = ['won', 'lost', 'drawn'];
+
+export interface PlayerInfo {
+  name: string;
+  rating: number | null;
+}
+
+// A game from any source, normalized so downstream code never has to re-read PGN headers
+export interface SourceGame {
+  pgn: string;
+  url: string;
+  platform: Platform;
+  white: PlayerInfo;
+  black: PlayerInfo;
+  rated: boolean;
+  timeControl: string | null;
+  timeClass: TimeClass | null;
+  result: PgnResult;
+  playedAt: number | null;
+  // Side played by the user the games were searched for, when known
+  userColor: PlayerColor | null;
+}
+
+export interface DateRange {
+  since?: Date;
+  until?: Date;
+}
+
+export interface GameFilters extends DateRange {
+  timeClasses?: TimeClass[];
+  ratedOnly?: boolean;
+  results?: GameResult[];
+  color?: PlayerColor;
+  minOpponentRating?: number;
+}
+
+// Filters as they arrive in a JSON request body; dates are ISO strings or epoch milliseconds
+export const parseFilters = (raw: Record<string, unknown> = {}): GameFilters => ({
+  timeClasses: Array.isArray(raw.timeClasses) ? (raw.timeClasses as TimeClass[]) : undefined,
+  ratedOnly: raw.ratedOnly === true,
+  results: Array.isArray(raw.results) ? (raw.results as GameResult[]) : undefined,
+  color: raw.color === 'white' || raw.color === 'black' ? raw.color : undefined,
+  since: raw.since ? new Date(raw.since as string | number) : undefined,
+  until: raw.until ? new Date(raw.until as string | number) : undefined,
+  minOpponentRating: raw.minOpponentRating ? Number(raw.minOpponentRating) : undefined
+});
+
+// Chess.com has no classical pool and calls correspondence "daily"
+export const chessComTimeClass = (timeClass: string): TimeClass | null => {
+  if (timeClass === 'daily') return 'correspondence';
+  return TIME_CLASSES.includes(timeClass as TimeClass) ? (timeClass as TimeClass) : null;
+};
+
+export const lichessTimeClass = (speed: string): TimeClass | null => {
+  if (speed === 'ultraBullet') return 'bullet';
+  return TIME_CLASSES.includes(speed as TimeClass) ? (speed as TimeClass) : null;
+};
+
+export const lichessPerfTypes = (timeClasses: TimeClass[]): string =>
+  timeClasses
+    .flatMap(timeClass => timeClass === 'bullet' ? ['ultraBullet', 'bullet'] : [timeClass])
+    .join(',');
+
+// Results and opponent rating can only be checked after download
+export const needsClientSideFiltering = (filters: GameFilters): boolean =>
+  !!(filters.results?.length || filters.minOpponentRating);
+
+export const colorOf = (game: Pick<SourceGame, 'white' | 'black'>, username: string): PlayerColor | null => {
+  const name = username.trim().toLowerCase();
+  if (!name) return null;
+  if (game.white.name.toLowerCase() === name) return 'white';
+  if (game.black.name.toLowerCase() === name) return 'black';
+  return null;
+};
+
+export const userResult = (game: SourceGame): GameResult | null => {
+  if (!game.userColor || game.result === '*') return null;
+  if (game.result === '1/2-1/2') return 'drawn';
+  const whiteWon = game.result === '1-0';
+  return whiteWon === (game.userColor === 'white') ? 'won' : 'lost';
+};
+
+export const opponentOf = (game: SourceGame): PlayerInfo | null => {
+  if (!game.userColor) return null;
+  return game.userColor === 'white' ? game.black : game.white;
+};
+
+export const matchesFilters = (game: SourceGame, filters: GameFilters): boolean => {
+  if (filters.timeClasses?.length && (!game.timeClass || !filters.timeClasses.includes(game.timeClass))) {
+    return false;
+  }
+  if (filters.ratedOnly && !game.rated) return false;
+  if (filters.results?.length) {
+    const result = userResult(game);
+    if (!result || !filters.results.includes(result)) return false;
+  }
+  if (filters.color && game.userColor !== filters.color) return false;
+  if (filters.since && (game.playedAt ?? 0) < filters.since.getTime()) return false;
+  if (filters.until && (game.playedAt ?? 0) > filters.until.getTime()) return false;
+  if (filters.minOpponentRating && (opponentOf(game)?.rating ?? 0) < filters.minOpponentRating) return false;
+  return true;
+};
+
+// Archive URLs look like https://api.chess.com/pub/player/{user}/games/{YYYY}/{MM}. Chess.com
+// files games by UTC month, so the bounds are UTC too.
+export const archiveInRange = (archiveUrl: string, filters: DateRange): boolean => {
+  const match = archiveUrl.match(/\/(\d{4})\/(\d{2})$/);
+  if (!match) return false;
+
+  const year = parseInt(match[1]);
+  const month = parseInt(match[2]);
+  const monthStart = Date.UTC(year, month - 1, 1);
+  const monthEnd = Date.UTC(year, month, 1);
+
+  if (filters.since && monthEnd <= filters.since.getTime()) return false;
+  if (filters.until && monthStart > filters.until.getTime()) return false;
+  return true;
+};
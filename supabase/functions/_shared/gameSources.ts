@@ -0,0 +1,211 @@
+// Fetching games from Chess.com and Lichess, shared by the app (through src/lib/chessApi)
+// and the fetch-chess-games edge function. Imports carry their .ts extension for Deno.
+import {
+  GameFilters,
+  PgnResult,
+  SourceGame,
+  archiveInRange,
+  chessComTimeClass,
+  colorOf,
+  lichessPerfTypes,
+  lichessTimeClass,
+  matchesFilters,
+  needsClientSideFiltering,
+} from './gameFilters.ts';
+
+// How many extra games to request from Lichess when some filters can only be applied locally
+const LICHESS_OVERFETCH_FACTOR = 5;
+const LICHESS_MAX_FETCH = 300;
+
+// Chess.com serves one archive per month, fetched one after another. Strict filters can match
+// few games, so the walk stops after this many months and returns what it has found.
+const CHESS_COM_MAX_MONTHS = 24;
+
+const USER_AGENT = 'Chess Tactics Generator';
+
+interface ChessComPlayer {
+  username: string;
+  rating: number;
+  result: string;
+}
+
+interface ChessComGame {
+  url: string;
+  pgn: string;
+  time_class: string;
+  time_control: string;
+  rated: boolean;
+  end_time: number;
+  white: ChessComPlayer;
+  black: ChessComPlayer;
+}
+
+interface LichessPlayer {
+  user?: { name: string };
+  rating?: number;
+}
+
+interface LichessGame {
+  id: string;
+  pgn: string;
+  speed: string;
+  rated: boolean;
+  createdAt: number;
+  status: string;
+  clock?: { initial: number; increment: number };
+  daysPerTurn?: number;
+  winner?: 'white' | 'black';
+  players: { white: LichessPlayer; black: LichessPlayer };
+}
+
+// A failed request to a game source, with the status it answered so the edge function can pass it on
+export class GameSourceError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GameSourceError';
+  }
+}
+
+const chessComResult = (game: ChessComGame): PgnResult => {
+  if (game.white.result === 'win') return '1-0';
+  if (game.black.result === 'win') return '0-1';
+  return '1/2-1/2';
+};
+
+const lichessResult = (game: LichessGame): PgnResult => {
+  if (game.winner) return game.winner === 'white' ? '1-0' : '0-1';
+  return game.status === 'started' ? '*' : '1/2-1/2';
+};
+
+const fromChessCom = (game: ChessComGame, username: string): SourceGame => {
+  const white = { name: game.white.username, rating: game.white.rating ?? null };
+  const black = { name: game.black.username, rating: game.black.rating ?? null };
+
+  return {
+    pgn: game.pgn,
+    url: game.url,
+    platform: 'chess.com',
+    white,
+    black,
+    rated: game.rated,
+    timeControl: game.time_control ?? null,
+    timeClass: chessComTimeClass(game.time_class),
+    result: chessComResult(game),
+    playedAt: game.end_time * 1000,
+    userColor: colorOf({ white, black }, username)
+  };
+};
+
+const fromLichess = (game: LichessGame, username: string): SourceGame => {
+  const white = { name: game.players.white.user?.name ?? 'Anonymous', rating: game.players.white.rating ?? null };
+  const black = { name: game.players.black.user?.name ?? 'Anonymous', rating: game.players.black.rating ?? null };
+  const timeControl = game.clock
+    ? `${game.clock.initial}+${game.clock.increment}`
+    : game.daysPerTurn ? `1/${game.daysPerTurn * 86400}` : null;
+
+  return {
+    pgn: game.pgn,
+    url: `https://lichess.org/${game.id}`,
+    platform: 'lichess',
+    white,
+    black,
+    rated: game.rated,
+    timeControl,
+    timeClass: lichessTimeClass(game.speed),
+    result: lichessResult(game),
+    playedAt: game.createdAt,
+    userColor: colorOf({ white, black }, username)
+  };
+};
+
+const fetchChessCom = async (url: string): Promise<Response> => {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': USER_AGENT
+    }
+  });
+
+  if (!response.ok) {
+    throw new GameSourceError(`Chess.com API error: ${response.statusText}`, response.status);
+  }
+  return response;
+};
+
+export const fetchChessComGames = async (
+  username: string,
+  count: number,
+  filters: GameFilters = {}
+): Promise<SourceGame[]> => {
+  const archivesResponse = await fetchChessCom(`https://api.chess.com/pub/player/${username}/games/archives`);
+  const { archives = [] } = await archivesResponse.json();
+
+  // Walk backwards from the most recent month until we have enough games
+  const months: string[] = archives
+    .filter((archiveUrl: string) => archiveInRange(archiveUrl, filters))
+    .reverse()
+    .slice(0, CHESS_COM_MAX_MONTHS);
+
+  const collected: SourceGame[] = [];
+
+  for (const archiveUrl of months) {
+    if (collected.length >= count) break;
+
+    const data = await (await fetchChessCom(archiveUrl)).json();
+    const games = (data.games || [])
+      .filter((game: ChessComGame) => game.pgn)
+      .map((game: ChessComGame) => fromChessCom(game, username))
+      .filter((game: SourceGame) => matchesFilters(game, filters))
+      .sort((a: SourceGame, b: SourceGame) => (b.playedAt ?? 0) - (a.playedAt ?? 0));
+
+    collected.push(...games.slice(0, count - collected.length));
+  }
+
+  return collected;
+};
+
+export const fetchLichessGames = async (
+  username: string,
+  count: number,
+  filters: GameFilters = {}
+): Promise<SourceGame[]> => {
+  const max = needsClientSideFiltering(filters)
+    ? Math.min(count * LICHESS_OVERFETCH_FACTOR, LICHESS_MAX_FETCH)
+    : count;
+
+  const params = new URLSearchParams({
+    max: String(max),
+    pgnInJson: 'true',
+    sort: 'dateDesc'
+  });
+  if (filters.since) params.set('since', String(filters.since.getTime()));
+  if (filters.until) params.set('until', String(filters.until.getTime()));
+  if (filters.timeClasses?.length) params.set('perfType', lichessPerfTypes(filters.timeClasses));
+  if (filters.ratedOnly) params.set('rated', 'true');
+  if (filters.color) params.set('color', filters.color);
+
+  const response = await fetch(
+    `https://lichess.org/api/games/user/${username}?${params}`,
+    {
+      headers: {
+        'Accept': 'application/x-ndjson',
+        'User-Agent': USER_AGENT
+      }
+    }
+  );
+
+  if (!response.ok) {
+    throw new GameSourceError(`Lichess API error: ${response.statusText}`, response.status);
+  }
+
+  const text = await response.text();
+  const games: LichessGame[] = text
+    .trim()
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+
+  return games
+    .map(game => fromLichess(game, username))
+    .filter(game => matchesFilters(game, filters))
+    .slice(0, count);
+};
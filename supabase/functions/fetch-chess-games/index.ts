@@ -1,23 +1,12 @@
+import { parseFilters } from "../_shared/gameFilters.ts";
+import { GameSourceError, fetchChessComGames, fetchLichessGames } from "../_shared/gameSources.ts";
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
-interface ChessComGame {
-  url: string;
-  pgn: string;
-  time_class: string;
-  end_time: number;
-}
-
-interface LichessGame {
-  id: string;
-  pgn: string;
-  speed: string;
-  createdAt: number;
-}
-
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -27,7 +16,8 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { username, platform, count } = await req.json();
+    const { username, platform, count, filters: rawFilters } = await req.json();
+    const filters = parseFilters(rawFilters);
 
     if (!username || !platform || !count) {
       return new Response(
@@ -39,68 +29,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    let games: any[] = [];
-
-    if (platform === "chess.com") {
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, "0");
-
-      const response = await fetch(
-        `https://api.chess.com/pub/player/${username}/games/${year}/${month}`
-      );
-
-      if (!response.ok) {
-        return new Response(
-          JSON.stringify({ error: `Chess.com API error: ${response.statusText}` }),
-          {
-            status: response.status,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      const data = await response.json();
-      const chessGames = data.games || [];
-
-      games = chessGames.slice(-count).map((game: ChessComGame) => ({
-        pgn: game.pgn,
-        url: game.url,
-        platform: "chess.com",
-      }));
-    } else if (platform === "lichess") {
-      const response = await fetch(
-        `https://lichess.org/api/games/user/${username}?max=${count}&pgnInJson=true&sort=dateDesc`,
-        {
-          headers: {
-            Accept: "application/x-ndjson",
-          },
-        }
-      );
-
-      if (!response.ok) {
-        return new Response(
-          JSON.stringify({ error: `Lichess API error: ${response.statusText}` }),
-          {
-            status: response.status,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
-
-      const text = await response.text();
-      const lichessGames = text
-        .trim()
-        .split("\n")
-        .filter((line) => line.trim())
-        .map((line) => JSON.parse(line));
-
-      games = lichessGames.map((game: LichessGame) => ({
-        pgn: game.pgn,
-        url: `https://lichess.org/${game.id}`,
-        platform: "lichess",
-      }));
-    } else {
+    if (platform !== "chess.com" && platform !== "lichess") {
       return new Response(
         JSON.stringify({ error: "Invalid platform. Use 'chess.com' or 'lichess'" }),
         {
@@ -110,12 +39,26 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    const games = platform === "chess.com"
+      ? await fetchChessComGames(username, count, filters)
+      : await fetchLichessGames(username, count, filters);
+
     return new Response(JSON.stringify({ games }), {
       status: 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
     console.error("Error:", error);
+    if (error instanceof GameSourceError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: error.status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
       {